@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSessionUserId } from "@/utils/session";
+import { computeAiAccuracy } from "@/utils/priorityCorrections";
+
+// Per-user AI rank accuracy for /dev. Admin session only.
+export async function GET(req: NextRequest) {
+    if (!await getAdminSessionUserId(req)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    try {
+        return NextResponse.json(await computeAiAccuracy());
+    } catch (error) {
+        console.error("AI accuracy error:", error);
+        return NextResponse.json({ error: "Failed to compute accuracy" }, { status: 500 });
+    }
+}
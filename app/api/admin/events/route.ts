@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSessionUserId } from "@/utils/session";
+import { listRecentEvents } from "@/utils/taskEvents";
+
+// Recent activity across all users for the /dev timeline. Admin session only.
+export async function GET(req: NextRequest) {
+    if (!await getAdminSessionUserId(req)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    try {
+        return NextResponse.json(await listRecentEvents());
+    } catch (error) {
+        console.error("Event list error:", error);
+        return NextResponse.json({ error: "Failed to load events" }, { status: 500 });
+    }
+}
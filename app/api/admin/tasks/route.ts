@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { getAdminSessionUserId } from "@/utils/session";
+import { withKnownStatus } from "@/utils/statuses";
+import { Task } from "@/types";
+
+// All users' tasks for the /dev monitor. Admin session only.
+// Statuses are normalized like listTasks does, so the status helpers on /dev never see a retired one.
+export async function GET(req: NextRequest) {
+    if (!await getAdminSessionUserId(req)) return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json((data as Task[]).map(withKnownStatus));
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { exchangeLinkToken, getSessionUserId, revokeSessions, SESSION_COOKIE, SESSION_TTL_SEC } from "@/utils/session";
+
+// Exchange a LINE link token (?t=...) for a session cookie
+export async function POST(req: NextRequest) {
+    try {
+        const { token } = await req.json();
+        if (!token) return NextResponse.json({ error: "Missing token" }, { status: 400 });
+
+        const session = await exchangeLinkToken(token);
+        if (!session) return NextResponse.json({ error: "Invalid or expired link" }, { status: 401 });
+
+        const res = NextResponse.json({ userId: session.userId });
+        res.cookies.set(SESSION_COOKIE, session.sessionToken, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "lax",
+            path: "/",
+            maxAge: SESSION_TTL_SEC,
+        });
+        return res;
+    } catch (error) {
+        console.error("Session exchange error:", error);
+        return NextResponse.json({ error: "Failed to create session" }, { status: 500 });
+    }
+}
+
+export async function GET(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    return NextResponse.json({ userId });
+}
+
+// Log out everywhere: revokes all links and sessions of the current user
+export async function DELETE(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (userId) await revokeSessions(userId);
+
+    const res = NextResponse.json({ message: "Logged out" });
+    res.cookies.delete(SESSION_COOKIE);
+    return res;
+}
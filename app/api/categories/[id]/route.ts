@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { deleteCategory, updateCategory, CategoryValidationError } from "@/utils/categories";
+
+type Params = { params: Promise<{ id: string }> };
+
+// { name?: string, color?: "#rrggbb" }; a new name is applied to the category's tasks too
+export async function PATCH(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        const category = await updateCategory(userId, id, await req.json());
+        if (!category) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json(category);
+    } catch (error) {
+        if (error instanceof CategoryValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Category update error:", error);
+        return NextResponse.json({ error: "Failed to update category" }, { status: 500 });
+    }
+}
+
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        if (!await deleteCategory(userId, id)) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json({ message: "Deleted" });
+    } catch (error) {
+        console.error("Category delete error:", error);
+        return NextResponse.json({ error: "Failed to delete category" }, { status: 500 });
+    }
+}
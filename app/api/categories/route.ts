@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { createCategory, listCategories, CategoryValidationError } from "@/utils/categories";
+
+export async function GET(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        return NextResponse.json(await listCategories(userId));
+    } catch (error) {
+        console.error("Category list error:", error);
+        return NextResponse.json({ error: "Failed to load categories" }, { status: 500 });
+    }
+}
+
+// { name: string, color?: "#rrggbb" }
+export async function POST(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        return NextResponse.json(await createCategory(userId, await req.json()));
+    } catch (error) {
+        if (error instanceof CategoryValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Category create error:", error);
+        return NextResponse.json({ error: "Failed to create category" }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as line from "@line/bot-sdk";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { isCronRequest } from "@/utils/cron";
+import { updateTask } from "@/utils/tasks";
+import { escalationTarget, formatDue, hourInJst } from "@/utils/dueDate";
+import { getUserSettings, isQuietHour } from "@/utils/userSettings";
+import { Task } from "@/types";
+
+const client = new line.messagingApi.MessagingApiClient({
+    channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
+});
+
+// Raises tasks to A/S as their deadline approaches. Triggered hourly by Vercel Cron.
+// The change is pushed to LINE like a reminder: only with reminders on and outside quiet hours.
+export async function GET(req: NextRequest) {
+    if (!isCronRequest(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { data, error } = await supabaseAdmin
+            .from('tasks')
+            .select('*')
+            .not('due_at', 'is', null)
+            .not('status', 'in', '("完了","削除済み")');
+
+        if (error) throw error;
+
+        const now = new Date();
+        const changes: { userId: string; taskId: string; title: string; from: string; to: string; dueAt: string }[] = [];
+
+        for (const task of data as Task[]) {
+            const target = escalationTarget(task, now);
+            if (!target) continue;
+
+            const updated = await updateTask(task.user_id, task.id, { priority: target }, 'cron');
+            if (updated) {
+                changes.push({ userId: task.user_id, taskId: task.id, title: task.title, from: task.priority, to: target, dueAt: task.due_at! });
+            }
+        }
+
+        // Tell each user what moved
+        const hour = hourInJst(now);
+        const userIds = Array.from(new Set(changes.map(c => c.userId)));
+        await Promise.all(userIds.map(async userId => {
+            try {
+                const settings = await getUserSettings(userId);
+                if (!settings.reminders_enabled || isQuietHour(settings, hour)) return;
+
+                const lines = changes
+                    .filter(c => c.userId === userId)
+                    .map(c => `・「${c.title}」${c.from}→${c.to}（⏰${formatDue(c.dueAt)}）`);
+                await client.pushMessage({
+                    to: userId,
+                    messages: [{ type: "text", text: `⏫締め切りが近いタスクのランクを上げました\n${lines.join("\n")}` }]
+                });
+            } catch (err) {
+                console.error("Escalation push error:", err);
+            }
+        }));
+
+        return NextResponse.json({ escalated: changes.length, changes });
+    } catch (error) {
+        console.error("Escalation error:", error);
+        return NextResponse.json({ error: "Escalation failed" }, { status: 500 });
+    }
+}
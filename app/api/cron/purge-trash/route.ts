@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { isCronRequest } from "@/utils/cron";
+import { purgeTrash } from "@/utils/tasks";
+import { getUserSettings } from "@/utils/userSettings";
+
+// Deletes trashed tasks for good once they are older than the user's trash_retention_days.
+// Triggered daily by Vercel Cron.
+export async function GET(req: NextRequest) {
+    if (!isCronRequest(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { data, error } = await supabaseAdmin
+            .from('tasks')
+            .select('user_id')
+            .eq('status', '削除済み');
+
+        if (error) throw error;
+
+        const now = new Date();
+        const userIds = Array.from(new Set((data as { user_id: string }[]).map(row => row.user_id)));
+        let purged = 0;
+
+        for (const userId of userIds) {
+            const { trash_retention_days: days } = await getUserSettings(userId);
+            if (days === null) continue;
+            purged += (await purgeTrash(userId, days, now)).length;
+        }
+
+        return NextResponse.json({ purged });
+    } catch (error) {
+        console.error("Trash purge error:", error);
+        return NextResponse.json({ error: "Trash purge failed" }, { status: 500 });
+    }
+}
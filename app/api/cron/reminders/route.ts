@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as line from "@line/bot-sdk";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { isCronRequest } from "@/utils/cron";
+import { listTasks } from "@/utils/tasks";
+import { compareTasks } from "@/utils/taskOrder";
+import { isTopLevel } from "@/utils/subtasks";
+import { isOnBoard, STATUS_DEFINITIONS } from "@/utils/statuses";
+import { DEFAULT_USER_SETTINGS, isQuietHour } from "@/utils/userSettings";
+import { formatDue, hourInJst } from "@/utils/dueDate";
+import { Task, UserSettings } from "@/types";
+
+const client = new line.messagingApi.MessagingApiClient({
+    channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+// Deadline reminders go out once, this long before the deadline
+const REMIND_BEFORE_MS = 3 * 60 * 60 * 1000;
+
+// Hourly push job for users who opted in (user_settings.reminders_enabled):
+// a morning digest at their digest_hour, and one-off deadline reminders in between.
+// Nothing is sent during quiet hours.
+export async function GET(req: NextRequest) {
+    if (!isCronRequest(req)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { data, error } = await supabaseAdmin
+            .from('user_settings')
+            .select('*')
+            .eq('reminders_enabled', true);
+
+        if (error) throw error;
+
+        const now = new Date();
+        const hour = hourInJst(now);
+        let digests = 0;
+        let reminders = 0;
+
+        for (const row of data as UserSettings[]) {
+            const settings = { ...DEFAULT_USER_SETTINGS, ...row };
+            if (isQuietHour(settings, hour)) continue;
+
+            const tasks = (await listTasks(settings.user_id)).filter(isTopLevel).sort(compareTasks);
+
+            let digested = false;
+            if (hour === settings.digest_hour) {
+                const text = buildDigest(tasks, settings, now);
+                if (text) {
+                    await push(settings.user_id, text);
+                    digests++;
+                    digested = true;
+                }
+            }
+
+            const due = tasks.filter(t =>
+                isActive(t) && t.due_at && !t.due_reminded_at &&
+                new Date(t.due_at).getTime() - now.getTime() <= REMIND_BEFORE_MS
+            );
+            if (due.length === 0) continue;
+
+            // The digest lists these under 期限が近い, so they are only marked as reminded
+            if (!digested) {
+                await push(settings.user_id, `⏰まもなく期限です\n${due.map(t => `・${t.title}（${formatDue(t.due_at!)}）`).join("\n")}`);
+                reminders += due.length;
+            }
+            await supabaseAdmin
+                .from('tasks')
+                .update({ due_reminded_at: now.toISOString() })
+                .in('id', due.map(t => t.id))
+                .eq('user_id', settings.user_id);
+        }
+
+        return NextResponse.json({ digests, reminders });
+    } catch (error) {
+        console.error("Reminder error:", error);
+        return NextResponse.json({ error: "Reminders failed" }, { status: 500 });
+    }
+}
+
+const isActive = (t: Task) => isOnBoard(t.status);
+
+function buildDigest(tasks: Task[], settings: UserSettings, now: Date): string | null {
+    const important = tasks.filter(t => isActive(t) && (t.priority === 'S' || t.priority === 'A'));
+    const inProgress = tasks.filter(t => t.status === '進行中' && t.priority !== 'S' && t.priority !== 'A');
+    const dueSoon = tasks.filter(t => isActive(t) && t.due_at && new Date(t.due_at).getTime() - now.getTime() <= DAY);
+    const stale = tasks.filter(t => {
+        if (!STATUS_DEFINITIONS[t.status].parked) return false;
+        const since = new Date(t.status_changed_at ?? t.created_at).getTime();
+        return now.getTime() - since >= settings.stale_days * DAY;
+    });
+
+    if (important.length + inProgress.length + dueSoon.length + stale.length === 0) return null;
+
+    const sections = ["☀️おはようございます！今日のタスクです"];
+    if (important.length > 0) {
+        sections.push(`【S・A】\n${important.map(t => `・#${t.ref} [${t.priority}] ${t.status === '進行中' ? '🏃' : ''}${t.title}`).join("\n")}`);
+    }
+    if (inProgress.length > 0) {
+        sections.push(`【🏃進行中】\n${inProgress.map(t => `・#${t.ref} ${t.title}`).join("\n")}`);
+    }
+    if (dueSoon.length > 0) {
+        sections.push(`【⏰期限が近い】\n${dueSoon.map(t => `・#${t.ref} ${t.title}（${formatDue(t.due_at!)}）`).join("\n")}`);
+    }
+    if (stale.length > 0) {
+        sections.push(`【💤${settings.stale_days}日以上動きなし】\n${stale.map(t => {
+            const days = Math.floor((now.getTime() - new Date(t.status_changed_at ?? t.created_at).getTime()) / DAY);
+            return `・#${t.ref} ${t.title}（${t.status}・${days}日）`;
+        }).join("\n")}\n再開するなら「#${stale[0].ref} 進行中」、不要なら「#${stale[0].ref} 削除」のように整理しましょう。`);
+    }
+    sections.push("「一覧」で全タスクを表示します。");
+    return sections.join("\n\n");
+}
+
+async function push(userId: string, text: string) {
+    try {
+        await client.pushMessage({ to: userId, messages: [{ type: "text", text }] });
+    } catch (err) {
+        console.error("Reminder push error:", err);
+    }
+}
@@ -1,24 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
-import { validateSignature, WebhookEvent } from "@line/bot-sdk";
+import { AudioEventMessage, ImageEventMessage, validateSignature, WebhookEvent } from "@line/bot-sdk";
 import * as line from "@line/bot-sdk";
-import { supabase } from "@/utils/supabaseClient";
-import { model } from "@/utils/gemini";
-import { Task, Priority, Status } from "@/types";
+import { extractTasks, ExtractedTask } from "@/utils/taskExtraction";
+import { Media, MediaKind, transcribeMedia } from "@/utils/mediaTranscription";
+import { findDuplicate, mergePatch } from "@/utils/duplicates";
+import { isTopLevel, subtasksOf } from "@/utils/subtasks";
+import { savePendingTasks, takePendingTask } from "@/utils/pendingTasks";
+import { classifyIntents, describeIntent, Intent, needsConfirmation, savePendingIntents, takePendingIntents } from "@/utils/intents";
+import { createDashboardUrl, revokeSessions } from "@/utils/session";
+import { appendTaskNote, createTasks, isPriority, listTasks, updateTask, updateTaskAndSpawn, TaskPatch, TaskValidationError } from "@/utils/tasks";
+import { getUserSettings, saveUserSettings } from "@/utils/userSettings";
+import { listCategories } from "@/utils/categories";
+import { created, recordChangeSet, snapshot, TaskChange, undoLastChangeSet, updated } from "@/utils/changeSets";
+import { claimPostback, decodePostback, encodePostback, isPostbackTask, newListId, postbackTask } from "@/utils/postbacks";
+import { compareTasks } from "@/utils/taskOrder";
+import { decodeFilter, generateTaskListMessage, ListFilter, parseListFilter } from "@/utils/lineTaskList";
+import { findRank, rankColumn, rankColumnsOf, rankLabel, rankOrder, rankWordPattern } from "@/utils/rankColumns";
+import { canTransition, isOpen, isStatus, statusFromWord, statusWords } from "@/utils/statuses";
+import { daysUntilPurge, trashedTasks } from "@/utils/trash";
+import { Task, Priority, RankColumn } from "@/types";
+
+interface DuplicateSuspect {
+    task: ExtractedTask;
+    existing: Task;
+}
+
+// Carousel limit is 12; more suspects than this in one message are dropped
+const MAX_DUPLICATE_PROMPTS = 10;
+// Lines shown by ゴミ箱; older trash is counted but not listed
+const MAX_TRASH_LINES = 20;
+
+const STALE_BUTTON = "⚠️このボタンは使えません。最新の一覧から操作してください。";
 
 // LINE Client Configuration
 const client = new line.messagingApi.MessagingApiClient({
     channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
 });
-
-// Priority Mapping for Sorting
-const priorityOrder: Record<Priority, number> = {
-    'S': 0,
-    'A': 1,
-    'B': 2,
-    'C': 3,
-    'DEV': 4,
-    'IDEA': 5,
-};
+// Downloads of images and audio sent by users
+const blobClient = new line.messagingApi.MessagingApiBlobClient({
+    channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
+});
 
 export async function POST(req: NextRequest) {
     try {
@@ -40,6 +61,10 @@ export async function POST(req: NextRequest) {
         await Promise.all(events.map(async (event) => {
             if (event.type === "message" && event.message.type === "text") {
                 await handleMessage(event.source.userId!, event.replyToken, event.message.text);
+            } else if (event.type === "message" && (event.message.type === "image" || event.message.type === "audio")) {
+                await handleMedia(event.source.userId!, event.replyToken, event.message);
+            } else if (event.type === "postback") {
+                await handlePostback(event.source.userId!, event.replyToken, event.postback.data);
             }
         }));
 
@@ -57,9 +82,18 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
         .trim();
 
     // 0. Global Commands
-    if (normalizedText === "一覧" || normalizedText === "いちらん" || normalizedText.toLowerCase() === "list") {
-        const tasks = await fetchActiveTasks(userId);
-        const flexMessage = generateFlexMessage(userId, tasks);
+    // "一覧 S", "一覧 進行中" or a category name with spaces like "一覧 A社 PJ"
+    const listMatch = normalizedText.match(/^(?:一覧|いちらん|list)(?:\s+(.+))?$/i);
+    if (listMatch) {
+        const filter = listMatch[1] ? parseListFilter(listMatch[1], await listCategories(userId), await rankColumnsFor(userId)) : null;
+        if (listMatch[1] && !filter) {
+            await client.replyMessage({
+                replyToken,
+                messages: [{ type: "text", text: `⚠️「${listMatch[1]}」では絞り込めません。「一覧 S」「一覧 開発」「一覧 進行中」「一覧 〇〇PJ」（登録済みのカテゴリ）のように指定してください。` }],
+            });
+            return;
+        }
+        const flexMessage = await buildTaskListMessage(userId, filter);
         await client.replyMessage({ replyToken, messages: [flexMessage] });
         return;
     }
@@ -69,14 +103,14 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
             replyToken,
             messages: [{
                 type: "text",
-                text: "【タスク自動整理の使い方】\n\n1. タスクの登録\n自由に送るだけでAIが登録します。改行して一気に入れてもOKです。\n\n2. ランク変更\n・「1 を S」: 1番をSランクへ\n・「2 は 開発」: 2番を開発ランクへ\n・「3 を メモ」: 3番をアイデア/メモへ\n\n3. 内容の修正\n・「1 を 〇〇 に修正」: タイトルを変更\n\n4. 状態の変更\n・「1 完了」「2 進行中」「3 削除」「4 保留」「2 は 削除」など。\n・「削除 2 3」や「17と19を完了」のように複数を一度に操作することも可能です。\n\n「一覧」でリスト表示、「ダッシュボード」で管理画面リンクを表示します。"
+                text: "【タスク自動整理の使い方】\n\n1. タスクの登録\n自由に送るだけでAIが登録します。改行して一気に入れてもOKです。\n「毎週月曜 週報提出」のように送ると繰り返しタスクになります。\nホワイトボードや手書きメモの写真、ボイスメッセージからも登録できます。\n\n2. ランク変更\n・「1 を S」: 1番をSランクへ\n・「2 は 開発」: 2番を開発ランクへ\n・「3 を メモ」: 3番をアイデア/メモへ\nランクの名前・別名・並び順はダッシュボードの列見出しから変更できます。\n\n3. 内容の修正\n・「1 を 〇〇 に修正」: タイトルを変更\n・「1 メモ 〇〇」: メモ（URLや場所など）に追記\n\n4. 状態の変更\n・「1 完了」「2 進行中」「3 削除」「4 保留」「2 は 削除」など。\n・「削除 2 3」や「17と19を完了」のように複数を一度に操作することも可能です。\n・「3-2 完了」で3番のサブタスク2を完了にします。\n・番号の代わりに一覧右側の固定番号「#12」でも指定できます（例:「#12 完了」）。\n・「会議資料のやつ終わった」のように普通の文でも操作できます（削除と修正は確認してから実行）。\n\n「一覧」でリスト表示（「一覧 S」「一覧 進行中」「一覧 〇〇PJ」でランク・状態・カテゴリを絞り込み）、「ダッシュボード」で管理画面リンクを表示します。\n管理画面のリンクは15分間有効です。「ログアウト」で発行済みのリンクとログインをすべて無効にできます。\n\n5. 取り消し\n・「取り消し」「元に戻す」: 直前の操作（追加・修正・状態変更）を元に戻します。繰り返すとさらに前に戻ります。\n\n6. 通知\n・「通知オン」「通知オフ」: 毎朝のまとめと期限リマインド\n・「通知 8時」: まとめを送る時刻\n・「おやすみ 22-7」: 通知しない時間帯\n\n7. ゴミ箱\n・「ゴミ箱」: 削除したタスクの一覧（既定では30日後に自動で完全削除）\n・「復元 1」「復元 #12」: ゴミ箱のタスクを元に戻す"
             }],
         });
         return;
     }
 
     if (normalizedText === "ダッシュボード" || normalizedText === "管理画面" || normalizedText.toLowerCase() === "dashboard") {
-        const dashboardUrl = `https://task-auto-sorting-app.vercel.app?u=${userId}`;
+        const dashboardUrl = await createDashboardUrl(userId);
         await client.replyMessage({
             replyToken,
             messages: [{
@@ -89,6 +123,7 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
                         layout: "vertical",
                         contents: [
                             { type: "text", text: "あなた専用のダッシュボード", weight: "bold", size: "sm" },
+                            { type: "text", text: "リンクの有効期限は15分です", size: "xxs", color: "#aaaaaa", margin: "sm" },
                             {
                                 type: "button",
                                 action: { type: "uri", label: "管理画面を開く", uri: dashboardUrl },
@@ -104,54 +139,166 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
         return;
     }
 
+    if (normalizedText === "ログアウト" || normalizedText.toLowerCase() === "logout") {
+        await revokeSessions(userId);
+        await client.replyMessage({
+            replyToken,
+            messages: [{ type: "text", text: "🔒発行済みのダッシュボードリンクとログインをすべて無効にしました。" }],
+        });
+        return;
+    }
+
+    if (normalizedText === "取り消し" || normalizedText === "元に戻す" || normalizedText.toLowerCase() === "undo") {
+        const restored = await undoLastChangeSet(userId);
+        if (!restored) {
+            await client.replyMessage({ replyToken, messages: [{ type: "text", text: "取り消せる操作はありません。" }] });
+            return;
+        }
+        await client.replyMessage({
+            replyToken,
+            messages: [
+                { type: "text", text: `直前の操作を取り消しました。\n${restored.join("\n") || "（変更できるタスクはありませんでした）"}` },
+                await buildTaskListMessage(userId)
+            ],
+        });
+        return;
+    }
+
+    const reminderReply = await handleReminderCommand(userId, normalizedText);
+    if (reminderReply) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: reminderReply }] });
+        return;
+    }
+
+    const trashReply = await handleTrashCommand(userId, normalizedText);
+    if (trashReply) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: trashReply }] });
+        return;
+    }
+
     // 1. Parse Commands Systematically
-    const lines = normalizedText.split(/\r?\n/).map(l => l.trim()).filter(l => l);
+    // Untrimmed lines are kept for task text, where indentation marks subtasks
+    const rawLines = normalizedText.split(/\r?\n/).map(l => l.trimEnd()).filter(l => l.trim());
     const commandResults: string[] = [];
-    const taskLines: string[] = [];
+    let taskLines: string[] = [];
+    const changes: TaskChange[] = [];
+    const suspects: DuplicateSuspect[] = [];
 
     // Regex Definitions
-    const statusWords = "完了|削除|進行中|保留|静観|戻す";
-    const editRegex = /^(\d+)\s*[はを]\s*(.+)\s*に修正$/;
-    const priorityRegex = /^(\d+)\s*[はをの]?\s*(?:ランク)?\s*([SABC]|DEV|開発|IDEA|アイデア|メモ)(?:\s*(?:に修正|に変更))?\s*$/i;
-    const statusEndRegex = new RegExp(`^([\\d\\sと、,]+)\\s*[はを]?\\s*(${statusWords})$`);
-    const commandStartRegex = new RegExp(`^(${statusWords})\\s*([\\d\\sと、,]+)$`);
-
-    const tasks = await fetchActiveTasks(userId);
+    const statusPattern = statusWords().join("|");
+    // A target is a list number ("3") or a stable handle ("#12"), optionally with a subtask number ("3-2")
+    const editRegex = /^(#?\d+(?:-\d+)?)\s*[はを]\s*(.+)\s*に修正$/;
+    // "2 メモ 〇〇" appends to the note; "2 メモ" alone is the rank change below
+    const noteRegex = /^(#?\d+(?:-\d+)?)\s*[のに]?\s*メモ[\s:：]+(.+)$/;
+    const statusEndRegex = new RegExp(`^([#\\d\\-\\sと、,]+)\\s*[はを]?\\s*(${statusPattern})$`);
+    const commandStartRegex = new RegExp(`^(${statusPattern})\\s*([#\\d\\-\\sと、,]+)$`);
+
+    const settings = await getUserSettings(userId);
+    const { last_seen_list: seenList } = settings;
+    const columns = rankColumnsOf(settings);
+    // The user's rank names and aliases ("2 は 開発") as well as the keys
+    const priorityRegex = new RegExp(`^(#?\\d+)\\s*[はをの]?\\s*(?:ランク)?\\s*(${rankWordPattern(columns)})(?:\\s*(?:に修正|に変更))?\\s*$`, 'i');
+
+    const allTasks = await listTasks(userId);
+    const tasks = activeTasks(allTasks, columns);
+
+    // Handles always resolve. List numbers resolve against the current list, but only if it still
+    // matches the last list the user was sent; otherwise they may be looking at a different task.
+    const resolveTarget = (token: string): { task?: Task; warning?: string } => {
+        const [parentToken, subtaskNumber] = token.split('-');
+        if (subtaskNumber) {
+            const { task: parent, warning } = resolveTarget(parentToken);
+            if (!parent) return { warning };
+            const subtask = subtasksOf(allTasks, parent.id)[parseInt(subtaskNumber, 10) - 1];
+            return subtask ? { task: subtask } : { warning: `⚠️#${parent.ref}「${parent.title}」にサブタスク${subtaskNumber}はありません。` };
+        }
+        if (token.startsWith('#')) {
+            const task = allTasks.find(t => t.ref === parseInt(token.slice(1), 10) && t.status !== '削除済み');
+            return task ? { task } : { warning: `⚠️${token} のタスクは見つかりませんでした。` };
+        }
+        const idx = parseInt(token, 10);
+        const task = tasks[idx - 1];
+        if (!task) return {};
+        if (seenList && seenList[idx - 1] !== task.id) {
+            const seenTask = allTasks.find(t => t.id === seenList[idx - 1]);
+            const was = seenTask ? `前回の一覧では #${seenTask.ref}「${seenTask.title}」` : "前回の一覧とは別のタスク";
+            return { warning: `⚠️一覧が更新されています。「${idx}」は${was}、現在は #${task.ref}「${task.title}」です。最新の一覧を確認するか「#${task.ref}」のように指定してください。` };
+        }
+        return { task };
+    };
 
-    for (const line of lines) {
+    for (const rawLine of rawLines) {
+        const line = rawLine.trim();
         let match: any;
 
         if (match = line.match(editRegex)) {
-            const idx = parseInt(match[1], 10);
+            const { task, warning } = resolveTarget(match[1]);
             const title = match[2];
-            if (tasks[idx - 1]) {
-                await supabase.from('tasks').update({ title }).eq('id', tasks[idx - 1].id);
-                commandResults.push(`✅修正: 「${tasks[idx - 1].title}」→「${title}」`);
+            if (warning) {
+                commandResults.push(warning);
+                continue;
+            }
+            if (task) {
+                await tryChange(commandResults, task, async () => {
+                    await updateTask(userId, task.id, { title }, 'LINE');
+                    changes.push(snapshot(task, ['title']));
+                    commandResults.push(`✅修正: 「${task.title}」→「${title}」`);
+                });
+                continue;
+            }
+        }
+
+        if (match = line.match(noteRegex)) {
+            const { task, warning } = resolveTarget(match[1]);
+            if (warning) {
+                commandResults.push(warning);
+                continue;
+            }
+            if (task) {
+                try {
+                    await appendTaskNote(userId, task.id, match[2], 'LINE');
+                    changes.push(snapshot(task, ['notes']));
+                    commandResults.push(`📝メモ追加: 「${task.title}」`);
+                } catch (noteError) {
+                    if (!(noteError instanceof TaskValidationError)) throw noteError;
+                    commandResults.push(`⚠️「${task.title}」のメモが長すぎるため追加できませんでした。`);
+                }
                 continue;
             }
         }
 
         if (match = line.match(priorityRegex)) {
-            const idx = parseInt(match[1], 10);
-            let priority = match[2].toUpperCase();
-            if (priority === '開発') priority = 'DEV';
-            if (priority === 'アイデア' || priority === 'メモ') priority = 'IDEA';
-            if (tasks[idx - 1]) {
-                await supabase.from('tasks').update({ priority, status: '未処理' }).eq('id', tasks[idx - 1].id);
-                commandResults.push(`✅優先度: 「${tasks[idx - 1].title}」[${priority}]`);
+            const { task, warning } = resolveTarget(match[1]);
+            const priority = findRank(match[2], columns)!;
+            if (warning) {
+                commandResults.push(warning);
+                continue;
+            }
+            if (task) {
+                await tryChange(commandResults, task, async () => {
+                    await updateTask(userId, task.id, { priority, status: '未処理' }, 'LINE');
+                    changes.push(snapshot(task, ['priority', 'status', 'sort_key']));
+                    commandResults.push(`✅優先度: 「${task.title}」[${rankLabel(rankColumn(columns, priority))}]`);
+                });
                 continue;
             }
         }
 
         if (match = line.match(statusEndRegex)) {
             const statusStr = match[2];
-            const newStatus = statusStr === '削除' ? '削除済み' : (statusStr === '戻す' ? '未処理' : statusStr);
-            const targetIndices = match[1].split(/[^\d]+/).filter(Boolean).map((n: string) => parseInt(n, 10));
-
-            for (const idx of targetIndices) {
-                if (tasks[idx - 1]) {
-                    await supabase.from('tasks').update({ status: newStatus }).eq('id', tasks[idx - 1].id);
-                    commandResults.push(`✅${statusStr}: 「${tasks[idx - 1].title}」`);
+            const newStatus = statusFromWord(statusStr)!;
+            const targets: string[] = match[1].match(/#?\d+(?:-\d+)?/g) ?? [];
+
+            for (const target of targets) {
+                const { task, warning } = resolveTarget(target);
+                if (warning) commandResults.push(warning);
+                if (task && !canTransition(task.status, newStatus)) {
+                    commandResults.push(`⚠️「${task.title}」は${task.status}のため${statusStr}にできません。`);
+                } else if (task) {
+                    await tryChange(commandResults, task, async () => {
+                        changes.push(...updated(task, ['status'], await updateTaskAndSpawn(userId, task.id, { status: newStatus }, 'LINE')));
+                        commandResults.push(`✅${statusStr}: 「${task.title}」`);
+                    });
                 }
             }
             continue;
@@ -159,56 +306,79 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
 
         if (match = line.match(commandStartRegex)) {
             const statusStr = match[1];
-            const newStatus = statusStr === '削除' ? '削除済み' : (statusStr === '戻す' ? '未処理' : statusStr);
-            const targetIndices = match[2].split(/[^\d]+/).filter(Boolean).map((n: string) => parseInt(n, 10));
-
-            for (const idx of targetIndices) {
-                if (tasks[idx - 1]) {
-                    await supabase.from('tasks').update({ status: newStatus }).eq('id', tasks[idx - 1].id);
-                    commandResults.push(`✅${statusStr}: 「${tasks[idx - 1].title}」`);
+            const newStatus = statusFromWord(statusStr)!;
+            const targets: string[] = match[2].match(/#?\d+(?:-\d+)?/g) ?? [];
+
+            for (const target of targets) {
+                const { task, warning } = resolveTarget(target);
+                if (warning) commandResults.push(warning);
+                if (task && !canTransition(task.status, newStatus)) {
+                    commandResults.push(`⚠️「${task.title}」は${task.status}のため${statusStr}にできません。`);
+                } else if (task) {
+                    await tryChange(commandResults, task, async () => {
+                        changes.push(...updated(task, ['status'], await updateTaskAndSpawn(userId, task.id, { status: newStatus }, 'LINE')));
+                        commandResults.push(`✅${statusStr}: 「${task.title}」`);
+                    });
                 }
             }
             continue;
         }
 
-        if (/^\d+(\s|は|を|$)/.test(line)) {
+        if (/^#?\d+(-\d+)?(\s|は|を|$)/.test(line)) {
             commandResults.push(`⚠️「${line}」はコマンドとして認識できませんでした。`);
         } else {
-            taskLines.push(line);
+            taskLines.push(rawLine);
         }
     }
 
-    // 2. Finalize Results
+    // 2. Free text that refers to an existing task ("会議資料のやつ終わった")
+    const confirmations: Intent[] = [];
     if (taskLines.length > 0) {
-        const batchTasksText = taskLines.join("\n");
-        const newTasks = await analyzeTasksWithAI(batchTasksText);
-
-        if (newTasks.length > 0) {
-            const { data: inserted, error: insertError } = await supabase
-                .from('tasks')
-                .insert(newTasks.map((t: any) => ({ ...t, user_id: userId })))
-                .select();
-
-            if (!insertError && inserted) {
-                commandResults.push(`📝${inserted.length}件のタスクを追加しました。`);
-            } else if (insertError) {
-                console.error("Supabase insert error:", insertError);
-                commandResults.push(`❌タスクの追加に失敗しました。`);
+        const intents = await classifyIntents(taskLines, tasks);
+        for (const intent of intents) {
+            if (!intent) continue;
+            if (needsConfirmation(intent)) {
+                confirmations.push(intent);
+                continue;
             }
-        } else if (commandResults.length === 0) {
+            await tryChange(commandResults, intent.task, async () => {
+                const update = await updateTaskAndSpawn(userId, intent.task.id, intent.patch, 'LINE');
+                changes.push(...updated(intent.task, [...Object.keys(intent.patch) as (keyof TaskPatch)[], 'sort_key'], update));
+                commandResults.push(`✅${describeIntent(intent)}しました（「${intent.line}」）`);
+            });
+        }
+        taskLines = taskLines.filter((_, i) => !intents[i]);
+    }
+
+    // 3. Finalize Results
+    if (taskLines.length > 0) {
+        const batchTasksText = taskLines.join("\n");
+        const added = await addTasksFromText(userId, batchTasksText, allTasks);
+        changes.push(...added.changes);
+        suspects.push(...added.suspects);
+        if (added.extracted === 0 && commandResults.length === 0) {
             commandResults.push(`⚠️「${batchTasksText}」からタスクを抽出できませんでした。`);
         }
+        commandResults.push(...added.results);
     }
 
-    if (commandResults.length > 0) {
-        const updatedTasks = await fetchActiveTasks(userId);
-        const flexMessage = generateFlexMessage(userId, updatedTasks);
+    await recordChangeSet(userId, changes);
+
+    if (commandResults.length > 0 || confirmations.length > 0) {
+        const flexMessage = await buildTaskListMessage(userId);
+        const confirmMessage = confirmations.length > 0
+            ? generateConfirmMessage(confirmations, await savePendingIntents(userId, confirmations))
+            : null;
+        const duplicateMessage = await duplicatePrompt(userId, suspects);
 
         await client.replyMessage({
             replyToken,
             messages: [
-                { type: "text", text: commandResults.join("\n") },
-                flexMessage
+                ...(commandResults.length > 0 ? [{ type: "text" as const, text: commandResults.join("\n") }] : []),
+                ...(duplicateMessage ? [duplicateMessage] : []),
+                flexMessage,
+                // Quick replies only show on the last message
+                ...(confirmMessage ? [confirmMessage] : []),
             ],
         });
     } else {
@@ -222,149 +392,451 @@ async function handleMessage(userId: string, replyToken: string, text: string) {
     }
 }
 
-async function analyzeTasksWithAI(text: string) {
-    const prompt = `以下のテキストからタスクを抽出してください。
-テキスト:
-"${text}"
-
-解析ルール：
-1. 原則として「1行1タスク」として扱ってください。
-2. 「〇〇PJ 〇〇の状況」のように、プロジェクト名やコンテキストが含まれる場合は、それを含めてタスク名（title）にするか、適切にカテゴリ（category）に分類してください。
-3. 各タスクの優先度（priority）を以下の基準で判定してください：
-   - S: 重要かつ緊急（締め切り直近、重要会議、トラブル対応など）
-   - A: 緊急（今日明日中にやるべきこと）
-   - B: 重要（時間はかかるが重要な計画、準備など）
-   - C: その他（日常的な雑務、急がないもの）
-   - DEV: 開発・コーディング・技術的な作業
-   - IDEA: アイデア・メモ・思いつき
-
-返信形式：
-必ず以下のキーを持つJSON配列のみを返してください。余計な解説は不要です。
-[{"title": "タスク名", "category": "カテゴリ", "priority": "S/A/B/C/DEV/IDEA"}]`;
+interface AddedTasks {
+    results: string[];
+    changes: TaskChange[];
+    suspects: DuplicateSuspect[];
+    // Tasks found in the text, including suspected duplicates
+    extracted: number;
+}
+
+/** Extracts tasks from `text` and adds them, holding back likely duplicates of `existing`. */
+async function addTasksFromText(userId: string, text: string, existing: Task[]): Promise<AddedTasks> {
+    const added: AddedTasks = { results: [], changes: [], suspects: [], extracted: 0 };
+    // Falls back to the offline classifier when the AI is unavailable
+    const newTasks = await extractTasks(text, userId);
+    added.extracted = newTasks.length;
+
+    // Likely duplicates of existing tasks are held back until the user decides
+    const fresh: ExtractedTask[] = [];
+    for (const task of newTasks) {
+        const duplicate = findDuplicate(task.title, existing);
+        if (duplicate) added.suspects.push({ task, existing: duplicate.task });
+        else fresh.push(task);
+    }
+
+    if (fresh.length > 0) {
+        try {
+            const inserted = await createTasks(userId, fresh, 'AI');
+            added.changes.push(...inserted.map(created));
+            const subtaskCount = inserted.filter(t => t.parent_id).length;
+            added.results.push(`📝${inserted.length - subtaskCount}件のタスクを追加しました。${subtaskCount > 0 ? `（サブタスク${subtaskCount}件）` : ''}`);
+        } catch (insertError) {
+            console.error("Task insert error:", insertError);
+            added.results.push(`❌タスクの追加に失敗しました。`);
+        }
+    }
+    if (added.suspects.length > 0) {
+        added.results.push(`⚠️${added.suspects.length}件は既存のタスクと重複している可能性があります。統合するか追加するか選んでください。`);
+    }
+    return added;
+}
+
+async function duplicatePrompt(userId: string, suspects: DuplicateSuspect[]): Promise<line.messagingApi.FlexMessage | null> {
+    if (suspects.length === 0) return null;
+    const shown = suspects.slice(0, MAX_DUPLICATE_PROMPTS);
+    return generateDuplicateMessage(shown, await savePendingTasks(userId, shown.map(s => s.task)), await rankColumnsFor(userId));
+}
+
+const mediaLabels: Record<MediaKind, string> = {
+    image: '画像',
+    audio: '音声',
+};
 
+// Images and voice memos: transcribe, then add tasks exactly like a typed message would
+async function handleMedia(userId: string, replyToken: string, message: ImageEventMessage | AudioEventMessage) {
+    const label = mediaLabels[message.type];
+    let text: string;
     try {
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
-        const match = responseText.match(/\[[\s\S]*\]/);
-        if (!match) return [];
-        return JSON.parse(match[0]);
-    } catch (e) {
-        console.error("AI Analysis error:", e);
-        return [];
+        text = await transcribeMedia(await fetchMedia(message));
+    } catch (error) {
+        console.error("Media transcription error:", error);
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: `❌${label}を読み取れませんでした。時間をおいて再度送るか、文字で送ってください。` }] });
+        return;
+    }
+    if (!text) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: `⚠️${label}から文字を読み取れませんでした。` }] });
+        return;
+    }
+
+    const added = await addTasksFromText(userId, text, await listTasks(userId));
+    await recordChangeSet(userId, added.changes);
+    const results = added.extracted === 0 ? ["⚠️読み取った内容からタスクを抽出できませんでした。"] : added.results;
+    const duplicateMessage = await duplicatePrompt(userId, added.suspects);
+
+    await client.replyMessage({
+        replyToken,
+        messages: [
+            { type: "text", text: `🔍${label}から読み取った内容:\n${text}\n\n${results.join("\n")}` },
+            ...(duplicateMessage ? [duplicateMessage] : []),
+            await buildTaskListMessage(userId),
+        ],
+    });
+}
+
+async function fetchMedia(message: ImageEventMessage | AudioEventMessage): Promise<Media> {
+    const fallbackType = message.type === 'image' ? 'image/jpeg' : 'audio/m4a';
+    // Media sent through LINE is downloaded from the content API; other providers host it themselves
+    if (message.contentProvider.type === 'external') {
+        const res = await fetch(message.contentProvider.originalContentUrl);
+        if (!res.ok) throw new Error(`Failed to fetch media: ${res.status}`);
+        return { kind: message.type, mimeType: res.headers.get('content-type') ?? fallbackType, data: Buffer.from(await res.arrayBuffer()) };
+    }
+
+    const { httpResponse, body } = await blobClient.getMessageContentWithHttpInfo(message.id);
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) chunks.push(Buffer.from(chunk));
+    return { kind: message.type, mimeType: httpResponse.headers.get('content-type') ?? fallbackType, data: Buffer.concat(chunks) };
+}
+
+// Buttons in the Flex list (see utils/lineTaskList.ts)
+async function handlePostback(userId: string, replyToken: string, data: string) {
+    const postback = decodePostback(data);
+    if (!postback) return;
+
+    if (postback.action === 'confirm' || postback.action === 'cancel') {
+        await handleIntentConfirmation(userId, replyToken, postback.action, postback.value);
+        return;
+    }
+
+    if (postback.action === 'merge' || postback.action === 'add') {
+        await handleDuplicateChoice(userId, replyToken, postback.action, postback.taskId, postback.value);
+        return;
+    }
+
+    // Paging only re-renders the list, so repeated taps need no receipt
+    if (postback.action === 'page') {
+        const [priority, index] = postback.value.split(':');
+        if (!isPriority(priority)) return;
+        const page = { priority, index: parseInt(index, 10) || 0 };
+        await client.replyMessage({
+            replyToken,
+            messages: [await buildTaskListMessage(userId, decodeFilter(postback.filter ?? ''), page)],
+        });
+        return;
+    }
+
+    const task = (await listTasks(userId)).find(t => isPostbackTask(t, postback));
+    if (!task) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: "⚠️このタスクは見つかりませんでした。" }] });
+        return;
     }
+
+    const columns = await rankColumnsFor(userId);
+    const label = (priority: Priority) => rankLabel(rankColumn(columns, priority));
+
+    // "ランク" opens a quick-reply menu; each choice is a priority postback of the same list
+    if (postback.action === 'rank') {
+        await client.replyMessage({
+            replyToken,
+            messages: [{
+                type: "text",
+                text: `#${task.ref}「${task.title}」のランクを選んでください（現在: ${label(task.priority)}）`,
+                quickReply: {
+                    items: columns.filter(c => c.key !== task.priority).map(({ key }) => ({
+                        type: "action" as const,
+                        action: {
+                            type: "postback" as const,
+                            // Quick reply labels are limited to 20 characters
+                            label: label(key).slice(0, 20),
+                            data: encodePostback({ action: 'priority', ...postbackTask(task), value: key, listId: postback.listId }),
+                            displayText: `#${task.ref} を ${label(key)}`,
+                        },
+                    })),
+                },
+            }],
+        });
+        return;
+    }
+
+    // A double tap delivers the same data twice; only the first one is applied
+    if (!await claimPostback(userId, data)) return;
+
+    // The value comes back from LINE as text: a forged button, or one from an older list, may name no status or rank
+    const results: string[] = [];
+    if (postback.action === 'status') {
+        const status = postback.value;
+        if (!isStatus(status)) {
+            results.push(STALE_BUTTON);
+        } else if (task.status === status) {
+            results.push(`「${task.title}」はすでに${status}です。`);
+        } else if (!canTransition(task.status, status)) {
+            results.push(`⚠️「${task.title}」は${task.status}のため${status}にできません。`);
+        } else {
+            await tryChange(results, task, async () => {
+                await recordChangeSet(userId, updated(task, ['status'], await updateTaskAndSpawn(userId, task.id, { status }, 'LINE')));
+                results.push(`✅${status}: 「${task.title}」`);
+            });
+        }
+    } else {
+        const priority = postback.value;
+        if (!isPriority(priority)) {
+            results.push(STALE_BUTTON);
+        } else if (task.priority === priority) {
+            results.push(`「${task.title}」はすでに${label(priority)}です。`);
+        } else {
+            await tryChange(results, task, async () => {
+                await updateTask(userId, task.id, { priority, status: '未処理' }, 'LINE');
+                await recordChangeSet(userId, [snapshot(task, ['priority', 'status', 'sort_key'])]);
+                results.push(`✅優先度: 「${task.title}」[${label(priority)}]`);
+            });
+        }
+    }
+    const result = results.join("\n");
+
+    await client.replyMessage({
+        replyToken,
+        messages: [{ type: "text", text: result }, await buildTaskListMessage(userId)],
+    });
+}
+
+/**
+ * Runs one command's write. A change the task rules refuse (an empty title, a status the task cannot move to)
+ * is reported as that task's result instead of failing the whole reply.
+ */
+async function tryChange(results: string[], task: Task, write: () => Promise<void>) {
+    try {
+        await write();
+    } catch (error) {
+        if (!(error instanceof TaskValidationError)) throw error;
+        results.push(`⚠️「${task.title}」を変更できませんでした（${error.message}）。`);
+    }
+}
+
+// ゴミ箱 lists trashed tasks; 復元 1 3 / 復元 #12 restores them by that list's numbers or their handles
+async function handleTrashCommand(userId: string, text: string): Promise<string | null> {
+    const restoreMatch = text.match(/^復元\s*([#\d\sと、,]+)$/);
+    if (text !== "ゴミ箱" && !restoreMatch) return null;
+
+    const trash = trashedTasks(await listTasks(userId));
+    if (!restoreMatch) {
+        if (trash.length === 0) return "🗑️ゴミ箱は空です。";
+        const { trash_retention_days: days } = await getUserSettings(userId);
+        const lines = trash.slice(0, MAX_TRASH_LINES).map((t, i) =>
+            `${i + 1}. ${t.title} #${t.ref}${days !== null ? `（あと${daysUntilPurge(t, days)}日）` : ''}`
+        );
+        if (trash.length > MAX_TRASH_LINES) lines.push(`…ほか${trash.length - MAX_TRASH_LINES}件`);
+        const policy = days !== null ? `${days}日後に自動で完全削除されます` : "自動削除はオフです";
+        return `🗑️ゴミ箱（${trash.length}件・${policy}）\n${lines.join("\n")}\n\n「復元 1」や「復元 #12」で元に戻せます。`;
+    }
+
+    const results: string[] = [];
+    const changes: TaskChange[] = [];
+    for (const token of restoreMatch[1].match(/#?\d+/g) ?? []) {
+        const task = token.startsWith('#')
+            ? trash.find(t => t.ref === parseInt(token.slice(1), 10))
+            : trash[parseInt(token, 10) - 1];
+        if (!task) {
+            results.push(`⚠️ゴミ箱に ${token} のタスクはありません。`);
+            continue;
+        }
+        await tryChange(results, task, async () => {
+            await updateTask(userId, task.id, { status: '未処理' }, 'LINE');
+            changes.push(snapshot(task, ['status']));
+            results.push(`♻️復元: 「${task.title}」`);
+        });
+    }
+    await recordChangeSet(userId, changes);
+    return results.join("\n");
 }
 
-async function fetchActiveTasks(userId: string): Promise<Task[]> {
-    const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('user_id', userId)
-        .not('status', 'eq', '削除済み')
-        .not('status', 'eq', '完了');
-
-    if (error || !data) return [];
-
-    return (data as Task[]).sort((a, b) => {
-        const pA = priorityOrder[a.priority] ?? 3;
-        const pB = priorityOrder[b.priority] ?? 3;
-        if (pA !== pB) return pA - pB;
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+// はい / いいえ on changes guessed from free text (see generateConfirmMessage)
+async function handleIntentConfirmation(userId: string, replyToken: string, action: 'confirm' | 'cancel', pendingId: string) {
+    const pending = await takePendingIntents(userId, pendingId);
+    if (!pending) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: "この確認はすでに処理済みです。" }] });
+        return;
+    }
+    if (action === 'cancel') {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: "キャンセルしました。" }] });
+        return;
+    }
+
+    const allTasks = await listTasks(userId);
+    const results: string[] = [];
+    const changes: TaskChange[] = [];
+    for (const { task_id, patch } of pending) {
+        const task = allTasks.find(t => t.id === task_id);
+        // Trashed or changed in the meantime
+        if (!task || (patch.status && !canTransition(task.status, patch.status))) continue;
+        await tryChange(results, task, async () => {
+            changes.push(...updated(task, Object.keys(patch) as (keyof TaskPatch)[], await updateTaskAndSpawn(userId, task.id, patch, 'LINE')));
+            results.push(`✅${describeIntent({ task, patch })}しました`);
+        });
+    }
+    await recordChangeSet(userId, changes);
+
+    await client.replyMessage({
+        replyToken,
+        messages: [
+            { type: "text", text: results.join("\n") || "⚠️対象のタスクが見つかりませんでした。" },
+            await buildTaskListMessage(userId)
+        ],
     });
 }
 
-function generateFlexMessage(userId: string, tasks: Task[]) {
-    const colors: Record<Priority, string> = {
-        'S': '#FF3333',
-        'A': '#FF9933',
-        'B': '#33CC33',
-        'C': '#3399FF',
-        'DEV': '#818CF8',
-        'IDEA': '#F472B6', // Pink
+function generateConfirmMessage(intents: Intent[], pendingId: string): line.messagingApi.TextMessage {
+    const listId = newListId();
+    const item = (label: string, action: 'confirm' | 'cancel') => ({
+        type: "action" as const,
+        action: {
+            type: "postback" as const,
+            label,
+            data: encodePostback({ action, taskId: '', value: pendingId, listId }),
+            displayText: label,
+        },
+    });
+
+    return {
+        type: "text",
+        text: `次の操作を実行しますか？\n${intents.map(i => `・${describeIntent(i)}（「${i.line}」）`).join("\n")}`,
+        quickReply: { items: [item("はい", 'confirm'), item("いいえ", 'cancel')] },
     };
+}
 
-    const contents: any[] = tasks.map((task, index) => {
-        const priorityColor = colors[task.priority] || '#000000';
-        const statusIcon = task.status === '進行中' ? '🏃' : '';
-        const priorityIcon = task.priority === 'DEV' ? '🛠️ ' : (task.priority === 'IDEA' ? '💡 ' : '');
-        const itemText = `${index + 1}. ${statusIcon}${priorityIcon}${task.title}`;
-        const metaText = `(${task.priority})`;
-
-        return {
-            type: "box",
-            layout: "horizontal",
-            contents: [
-                {
-                    type: "text",
-                    text: itemText,
-                    flex: 4,
-                    size: "sm",
-                    color: "#333333",
-                    wrap: true
-                },
-                {
-                    type: "text",
-                    text: metaText,
-                    flex: 1,
-                    size: "sm",
-                    color: priorityColor,
-                    align: "end",
-                    weight: "bold"
-                }
-            ],
-            margin: "md"
-        };
+// 統合 / 追加 on a duplicate warning (see generateDuplicateMessage)
+async function handleDuplicateChoice(userId: string, replyToken: string, action: 'merge' | 'add', existingId: string, pendingId: string) {
+    const pending = await takePendingTask(userId, pendingId);
+    if (!pending) {
+        await client.replyMessage({ replyToken, messages: [{ type: "text", text: "この確認はすでに処理済みです。" }] });
+        return;
+    }
+
+    const existing = (await listTasks(userId)).find(t => t.id === existingId && t.status !== '削除済み');
+    let result: string;
+    if (action === 'merge' && existing) {
+        const patch = mergePatch(existing, pending);
+        if (Object.keys(patch).length > 0) {
+            await updateTask(userId, existing.id, patch, 'LINE');
+            await recordChangeSet(userId, [snapshot(existing, [...Object.keys(patch) as (keyof typeof patch)[], 'sort_key'])]);
+        }
+        result = `🔗統合: 「${pending.title}」を #${existing.ref}「${existing.title}」にまとめました。`;
+    } else {
+        const [task] = await createTasks(userId, [pending], 'AI');
+        await recordChangeSet(userId, [created(task)]);
+        result = action === 'merge'
+            ? `⚠️統合先のタスクが見つからないため、「${task.title}」を追加しました。`
+            : `📝追加: 「${task.title}」`;
+    }
+
+    await client.replyMessage({
+        replyToken,
+        messages: [{ type: "text", text: result }, await buildTaskListMessage(userId)],
     });
+}
 
-    const dashboardUrl = `https://task-auto-sorting-app.vercel.app?u=${userId}`;
+function generateDuplicateMessage(suspects: DuplicateSuspect[], pendingIds: string[], columns: RankColumn[]): line.messagingApi.FlexMessage {
+    const listId = newListId();
+    const button = (label: string, action: 'merge' | 'add', suspect: DuplicateSuspect, pendingId: string, style: 'primary' | 'secondary'): line.messagingApi.FlexButton => ({
+        type: "button",
+        action: {
+            type: "postback",
+            label,
+            data: encodePostback({ action, taskId: suspect.existing.id, value: pendingId, listId }),
+            displayText: action === 'merge' ? `#${suspect.existing.ref} に統合` : `「${suspect.task.title}」を追加`,
+        },
+        style,
+        color: style === 'primary' ? "#1DB446" : undefined,
+        height: "sm",
+        flex: 1,
+    });
 
     return {
         type: "flex",
-        altText: "タスク一覧",
+        altText: "重複の可能性があるタスク",
         contents: {
-            type: "bubble",
-            header: {
-                type: "box",
-                layout: "vertical",
-                contents: [
-                    {
-                        type: "text",
-                        text: "📋 タスク一覧 (ダッシュボード)",
-                        weight: "bold",
-                        size: "md",
-                        color: "#1DB446"
-                    }
-                ],
-                action: { type: "uri", label: "Dashboard", uri: dashboardUrl }
-            },
-            body: {
-                type: "box",
-                layout: "vertical",
-                contents: contents.length > 0 ? contents : [
-                    { type: "text", text: "未処理のタスクはありません", color: "#aaaaaa", align: "center", size: "sm" }
-                ],
-                action: { type: "uri", label: "Dashboard", uri: dashboardUrl }
-            },
-            footer: {
-                type: "box",
-                layout: "vertical",
-                spacing: "sm",
-                contents: [
-                    {
-                        type: "button",
-                        action: { type: "uri", label: "ダッシュボードを開く", uri: dashboardUrl },
-                        style: "primary",
-                        color: "#1DB446",
-                        height: "sm"
-                    },
-                    {
-                        type: "text",
-                        text: "例: '1 完了' / '17と19を削除' / '1 を修正'",
-                        size: "xxs",
-                        color: "#aaaaaa",
-                        align: "center"
-                    }
-                ]
-            }
-        }
-    } as any;
+            type: "carousel",
+            contents: suspects.map((suspect, i) => ({
+                type: "bubble",
+                size: "kilo",
+                body: {
+                    type: "box",
+                    layout: "vertical",
+                    spacing: "sm",
+                    contents: [
+                        { type: "text", text: `⚠️既存の #${suspect.existing.ref} と重複の可能性`, weight: "bold", size: "sm", color: "#FF9933", wrap: true },
+                        { type: "text", text: `新規: ${suspect.task.title}`, size: "sm", wrap: true },
+                        { type: "text", text: `既存: #${suspect.existing.ref} ${suspect.existing.title}（${rankLabel(rankColumn(columns, suspect.existing.priority))}）`, size: "sm", color: "#888888", wrap: true },
+                    ],
+                },
+                footer: {
+                    type: "box",
+                    layout: "horizontal",
+                    spacing: "sm",
+                    contents: [
+                        button("統合する", 'merge', suspect, pendingIds[i], 'primary'),
+                        button("追加する", 'add', suspect, pendingIds[i], 'secondary'),
+                    ],
+                },
+            })),
+        },
+    };
+}
+
+// 通知オン / 通知オフ / 通知 8時 / おやすみ 22-7 / おやすみ なし
+async function handleReminderCommand(userId: string, text: string): Promise<string | null> {
+    let match: RegExpMatchArray | null;
+
+    if (text === "通知オン") {
+        const settings = await getUserSettings(userId);
+        await saveUserSettings(userId, { reminders_enabled: true });
+        return `🔔通知をオンにしました。毎朝${settings.digest_hour}時にS・A・進行中のタスクをお知らせし、期限が近いタスクもリマインドします。`;
+    }
+    if (text === "通知オフ") {
+        await saveUserSettings(userId, { reminders_enabled: false });
+        return "🔕通知をオフにしました。";
+    }
+    if ((match = text.match(/^通知\s*(\d{1,2})\s*時?$/))) {
+        const hour = parseInt(match[1], 10);
+        if (hour > 23) return "⚠️時刻は0〜23で指定してください。";
+        await saveUserSettings(userId, { digest_hour: hour, reminders_enabled: true });
+        return `🔔毎朝のまとめを${hour}時に送ります。`;
+    }
+    if ((match = text.match(/^おやすみ\s*(\d{1,2})\s*[-〜~]\s*(\d{1,2})\s*時?$/))) {
+        const start = parseInt(match[1], 10);
+        const end = parseInt(match[2], 10);
+        if (start > 23 || end > 23) return "⚠️時刻は0〜23で指定してください。";
+        await saveUserSettings(userId, { quiet_start: start, quiet_end: end });
+        return `🌙${start}時〜${end}時は通知を送りません。`;
+    }
+    if (text === "おやすみ なし" || text === "おやすみなし") {
+        await saveUserSettings(userId, { quiet_start: null, quiet_end: null });
+        return "🌙通知を送らない時間帯を解除しました。";
+    }
+    return null;
+}
+
+// Same order as the dashboard columns, so list numbers match what the user sees there
+function activeTasks(tasks: Task[], columns: RankColumn[]): Task[] {
+    const order = rankOrder(columns);
+    return tasks.filter(t => isTopLevel(t) && isOpen(t.status)).sort((a, b) => compareTasks(a, b, order));
+}
+
+async function rankColumnsFor(userId: string) {
+    return rankColumnsOf(await getUserSettings(userId));
+}
+
+async function fetchTasks(userId: string): Promise<Task[]> {
+    try {
+        return await listTasks(userId);
+    } catch {
+        return [];
+    }
+}
+
+async function buildTaskListMessage(userId: string, filter: ListFilter | null = null, page?: { priority: Priority; index: number }) {
+    const allTasks = await fetchTasks(userId);
+    const settings = await getUserSettings(userId);
+    const columns = rankColumnsOf(settings);
+    const tasks = activeTasks(allTasks, columns);
+    await saveUserSettings(userId, { last_seen_list: tasks.map(t => t.id) })
+        .catch(err => console.error("Failed to save seen list:", err));
+    return generateTaskListMessage(tasks, {
+        dashboardUrl: await createDashboardUrl(userId),
+        listId: newListId(),
+        columns,
+        subtasks: new Map(tasks.map(t => [t.id, subtasksOf(allTasks, t.id)])),
+        filter,
+        page,
+    });
 }
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import * as line from "@line/bot-sdk";
-import { supabase } from "@/utils/supabaseClient";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { getSessionUserId } from "@/utils/session";
 
 const client = new line.messagingApi.MessagingApiClient({
     channelAccessToken: process.env.LINE_CHANNEL_ACCESS_TOKEN || "",
@@ -10,10 +11,11 @@ const ADMIN_ID = process.env.ADMIN_LINE_ID;
 
 export async function POST(req: NextRequest) {
     try {
-        const { userId, path } = await req.json();
+        const { path } = await req.json();
+        const userId = await getSessionUserId(req);
 
         // Log to DB
-        await supabase.from('access_logs').insert([{ user_id: userId, path }]);
+        await supabaseAdmin.from('access_logs').insert([{ user_id: userId, path }]);
 
         // Notify Admin if someone else accesses /dev
         if (path.includes('/dev') && ADMIN_ID && userId !== ADMIN_ID) {
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createRealtimeToken, getSessionUserId, REALTIME_TOKEN_TTL_SEC } from "@/utils/session";
+
+// Token for the dashboard's Supabase Realtime subscription; the dashboard asks again before it expires
+export async function GET(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    const token = createRealtimeToken(userId);
+    if (!token) return NextResponse.json({ error: "Realtime is not configured" }, { status: 503 });
+    return NextResponse.json({ token, expiresIn: REALTIME_TOKEN_TTL_SEC });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { listTaskEvents } from "@/utils/taskEvents";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        return NextResponse.json(await listTaskEvents(userId, id));
+    } catch (error) {
+        console.error("Task history error:", error);
+        return NextResponse.json({ error: "Failed to load history" }, { status: 500 });
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { mergeTasks, TaskValidationError } from "@/utils/tasks";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Merges the task `from` into this one; `from` goes to the trash
+export async function POST(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        const { from } = await req.json();
+        if (typeof from !== 'string') return NextResponse.json({ error: "from must be a task id" }, { status: 400 });
+
+        const result = await mergeTasks(userId, id, from, 'dashboard');
+        if (!result) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json(result);
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task merge error:", error);
+        return NextResponse.json({ error: "Failed to merge tasks" }, { status: 500 });
+    }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { restoreTask, TaskValidationError } from "@/utils/tasks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function POST(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        const task = await restoreTask(userId, id, 'dashboard');
+        if (!task) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json(task);
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task restore error:", error);
+        return NextResponse.json({ error: "Failed to restore task" }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { deleteTrashedTask, updateTask, TaskValidationError } from "@/utils/tasks";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        // Scoping by user_id makes another user's task look like a missing one
+        const task = await updateTask(userId, id, await req.json(), 'dashboard');
+        if (!task) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json(task);
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task update error:", error);
+        return NextResponse.json({ error: "Failed to update task" }, { status: 500 });
+    }
+}
+
+// Permanent delete, for tasks in the trash only; others are moved there with PATCH { status: '削除済み' }
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        if (!await deleteTrashedTask(userId, id, 'dashboard')) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json({ message: "Deleted" });
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task delete error:", error);
+        return NextResponse.json({ error: "Failed to delete task" }, { status: 500 });
+    }
+}
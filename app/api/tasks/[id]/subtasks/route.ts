@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { createSubtasks, TaskValidationError } from "@/utils/tasks";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Adds checklist items: { titles: string[] }
+export async function POST(req: NextRequest, { params }: Params) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { id } = await params;
+        const { titles } = await req.json();
+        const subtasks = await createSubtasks(userId, id, titles, 'dashboard');
+        if (!subtasks) return NextResponse.json({ error: "Not found" }, { status: 404 });
+        return NextResponse.json(subtasks);
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Subtask insert error:", error);
+        return NextResponse.json({ error: "Failed to create subtasks" }, { status: 500 });
+    }
+}
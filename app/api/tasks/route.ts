@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { createTasks, listTasks, updateTasks, TaskValidationError } from "@/utils/tasks";
+import { isSignedExtraction } from "@/utils/extractionSignature";
+
+export async function GET(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        return NextResponse.json(await listTasks(userId));
+    } catch (error) {
+        console.error("Task list error:", error);
+        return NextResponse.json({ error: "Failed to load tasks" }, { status: 500 });
+    }
+}
+
+export async function POST(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { tasks } = await req.json();
+        if (!Array.isArray(tasks)) return NextResponse.json({ error: "tasks must be an array" }, { status: 400 });
+
+        // Tasks typed into the dashboard go through AI analysis unless it failed; only the analysis can vouch for that
+        const source = tasks.length > 0 && tasks.every(task => isSignedExtraction(userId, task)) ? 'AI' : 'dashboard';
+        return NextResponse.json(await createTasks(userId, tasks, source));
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task insert error:", error);
+        return NextResponse.json({ error: "Failed to create tasks" }, { status: 500 });
+    }
+}
+
+// Bulk patch: { ids: string[], patch: { status?, priority?, ... } }
+export async function PATCH(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { ids, patch } = await req.json();
+        if (!Array.isArray(ids)) return NextResponse.json({ error: "ids must be an array" }, { status: 400 });
+
+        return NextResponse.json(await updateTasks(userId, ids, patch, 'dashboard'));
+    } catch (error) {
+        if (error instanceof TaskValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+        console.error("Task bulk update error:", error);
+        return NextResponse.json({ error: "Failed to update tasks" }, { status: 500 });
+    }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUserId } from "@/utils/session";
+import { deleteTrashedTasks } from "@/utils/tasks";
+
+// Empty trash: { ids: string[] }. Only the listed tasks are deleted, so a queued request
+// does not take tasks trashed later on another device with it; ids no longer in the trash are skipped.
+export async function DELETE(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+    try {
+        const { ids } = await req.json();
+        if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+            return NextResponse.json({ error: "ids must be an array of strings" }, { status: 400 });
+        }
+
+        const deleted = await deleteTrashedTasks(userId, ids, 'dashboard');
+        return NextResponse.json({ deleted: deleted.length });
+    } catch (error) {
+        console.error("Empty trash error:", error);
+        return NextResponse.json({ error: "Failed to empty trash" }, { status: 500 });
+    }
+}
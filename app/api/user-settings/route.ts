@@ -1,45 +1,64 @@
 import { NextRequest, NextResponse } from "next/server";
-import { supabase } from "@/utils/supabaseClient";
+import { getSessionUserId } from "@/utils/session";
+import { getUserSettings, saveUserSettings } from "@/utils/userSettings";
+import { UserSettings } from "@/types";
+import { parseRankColumns, RankColumnValidationError, rankColumnsOf } from "@/utils/rankColumns";
 
-export async function GET(req: NextRequest) {
-    const userId = req.nextUrl.searchParams.get("userId");
-    if (!userId) return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+const isHour = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
 
-    const { data, error } = await supabase
-        .from('user_settings')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
+export async function GET(req: NextRequest) {
+    const userId = await getSessionUserId(req);
+    if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-    if (error && error.code !== 'PGRST116') { // PGRST116 is 'not found'
+    try {
+        const settings = await getUserSettings(userId);
+        // Resolved, so the dashboard never has to know the defaults
+        return NextResponse.json({ ...settings, rank_columns: rankColumnsOf(settings) });
+    } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
     }
-
-    return NextResponse.json(data || {
-        dev_rank_name: "自由設定（名前変更可能）",
-        idea_rank_name: "💡 アイデア（名前変更可能）"
-    });
 }
 
 export async function POST(req: NextRequest) {
     try {
-        const { userId, devRankName, ideaRankName } = await req.json();
-        if (!userId) return NextResponse.json({ error: "Missing userId" }, { status: 400 });
+        const userId = await getSessionUserId(req);
+        if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-        const updateData: any = {
-            user_id: userId,
-            updated_at: new Date().toISOString()
-        };
-        if (devRankName !== undefined) updateData.dev_rank_name = devRankName;
-        if (ideaRankName !== undefined) updateData.idea_rank_name = ideaRankName;
+        const { rankColumns, remindersEnabled, digestHour, quietStart, quietEnd, staleDays, trashRetentionDays } = await req.json();
 
-        const { data, error } = await supabase
-            .from('user_settings')
-            .upsert(updateData)
-            .select();
+        const updateData: Partial<Omit<UserSettings, 'user_id'>> = {};
+        if (rankColumns !== undefined) {
+            try {
+                updateData.rank_columns = rankColumns === null ? null : parseRankColumns(rankColumns);
+            } catch (error) {
+                if (error instanceof RankColumnValidationError) return NextResponse.json({ error: error.message }, { status: 400 });
+                throw error;
+            }
+        }
+        if (remindersEnabled !== undefined) updateData.reminders_enabled = !!remindersEnabled;
+        if (digestHour !== undefined) {
+            if (!isHour(digestHour)) return NextResponse.json({ error: "digestHour must be 0-23" }, { status: 400 });
+            updateData.digest_hour = digestHour;
+        }
+        if (quietStart !== undefined || quietEnd !== undefined) {
+            if ((quietStart !== null && !isHour(quietStart)) || (quietEnd !== null && !isHour(quietEnd))) {
+                return NextResponse.json({ error: "quietStart/quietEnd must be 0-23 or null" }, { status: 400 });
+            }
+            updateData.quiet_start = quietStart;
+            updateData.quiet_end = quietEnd;
+        }
+        if (staleDays !== undefined) {
+            if (!Number.isInteger(staleDays) || staleDays < 1) return NextResponse.json({ error: "staleDays must be a positive integer" }, { status: 400 });
+            updateData.stale_days = staleDays;
+        }
+        if (trashRetentionDays !== undefined) {
+            if (trashRetentionDays !== null && (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 1)) {
+                return NextResponse.json({ error: "trashRetentionDays must be a positive integer or null" }, { status: 400 });
+            }
+            updateData.trash_retention_days = trashRetentionDays;
+        }
 
-        if (error) throw error;
-        return NextResponse.json(data);
+        return NextResponse.json(await saveUserSettings(userId, updateData));
     } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
     }
@@ -1,8 +1,9 @@
 "use client";
 
 import { useEffect, useState } from 'react';
-import { supabase } from '@/utils/supabaseClient';
-import { Task } from '@/types';
+import { AiAccuracy, Task, TaskEvent, PRIORITIES } from '@/types';
+import { describeEvent, formatEventTime, sourceLabels } from '@/utils/taskEventFormat';
+import { isOpen } from '@/utils/statuses';
 import { CheckCircle2, Trash2, RefreshCw } from 'lucide-react';
 import clsx from 'clsx';
 import { Suspense } from 'react';
@@ -11,16 +12,16 @@ export default function DevDashboard() {
     const [tasks, setTasks] = useState<Task[]>([]);
     const [loading, setLoading] = useState(true);
     const [users, setUsers] = useState<string[]>([]);
+    const [events, setEvents] = useState<TaskEvent[]>([]);
+    const [accuracy, setAccuracy] = useState<AiAccuracy[]>([]);
 
     const fetchAllTasks = async () => {
         setLoading(true);
-        const { data, error } = await supabase
-            .from('tasks')
-            .select('*')
-            .order('created_at', { ascending: false });
+        const res = await fetch('/api/admin/tasks');
+        const data = await res.json().catch(() => null);
 
-        if (error) {
-            console.error('Error fetching tasks:', error);
+        if (!res.ok) {
+            console.error('Error fetching tasks:', data);
         } else {
             const allTasks = data as Task[];
             setTasks(allTasks);
@@ -29,6 +30,12 @@ export default function DevDashboard() {
             const uniqueUsers = Array.from(new Set(allTasks.map(t => t.user_id).filter(id => id)));
             setUsers(uniqueUsers);
         }
+
+        const eventsRes = await fetch('/api/admin/events');
+        if (eventsRes.ok) setEvents(await eventsRes.json());
+
+        const accuracyRes = await fetch('/api/admin/ai-accuracy');
+        if (accuracyRes.ok) setAccuracy(await accuracyRes.json());
         setLoading(false);
     };
 
@@ -53,10 +60,10 @@ export default function DevDashboard() {
             <div className="space-y-12">
                 {users.map(userId => {
                     const userTasks = tasks.filter(t => t.user_id === userId);
-                    const sTasks = userTasks.filter(t => t.priority === 'S' && t.status !== '完了' && t.status !== '削除済み');
-                    const aTasks = userTasks.filter(t => t.priority === 'A' && t.status !== '完了' && t.status !== '削除済み');
-                    const bTasks = userTasks.filter(t => t.priority === 'B' && t.status !== '完了' && t.status !== '削除済み');
-                    const cTasks = userTasks.filter(t => t.priority === 'C' && t.status !== '完了' && t.status !== '削除済み');
+                    const sTasks = userTasks.filter(t => t.priority === 'S' && isOpen(t.status));
+                    const aTasks = userTasks.filter(t => t.priority === 'A' && isOpen(t.status));
+                    const bTasks = userTasks.filter(t => t.priority === 'B' && isOpen(t.status));
+                    const cTasks = userTasks.filter(t => t.priority === 'C' && isOpen(t.status));
                     const doneCount = userTasks.filter(t => t.status === '完了').length;
 
                     return (
@@ -64,14 +71,6 @@ export default function DevDashboard() {
                             <div className="flex items-center justify-between mb-4 border-b border-white/5 pb-2">
                                 <div className="flex items-center gap-3">
                                     <span className="bg-white/5 px-2 py-1 rounded text-[10px] font-mono text-cyan-500">USER: {userId}</span>
-                                    <a
-                                        href={`/?u=${userId}`}
-                                        target="_blank"
-                                        rel="noreferrer"
-                                        className="text-gray-600 hover:text-white underline decoration-white/10 text-[8px]"
-                                    >
-                                        このユーザーのリンクを開く
-                                    </a>
                                 </div>
                                 <div className="flex gap-4">
                                     <Stat label="ACTIVE" value={sTasks.length + aTasks.length + bTasks.length + cTasks.length} />
@@ -90,6 +89,56 @@ export default function DevDashboard() {
                 })}
             </div>
 
+            {accuracy.length > 0 && (
+                <section className="mt-12 border border-white/10 rounded-lg p-3 bg-white/[0.01]">
+                    <h2 className="text-[10px] font-black tracking-widest text-gray-500 uppercase mb-3 border-b border-white/5 pb-2">AI Rank Accuracy</h2>
+                    <table className="w-full text-[8px]">
+                        <thead>
+                            <tr className="text-gray-600">
+                                <th className="text-left font-bold">USER</th>
+                                {PRIORITIES.map(p => <th key={p} className="text-right font-bold">{p}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Array.from(new Set(accuracy.map(a => a.user_id))).map(userId => (
+                                <tr key={userId}>
+                                    <td className="font-mono text-cyan-700 truncate max-w-[80px]">{userId}</td>
+                                    {PRIORITIES.map(p => {
+                                        const row = accuracy.find(a => a.user_id === userId && a.priority === p);
+                                        return (
+                                            <td key={p} className="text-right font-mono">
+                                                {row ? (
+                                                    <span className={clsx(row.correct / row.total >= 0.8 ? "text-emerald-500" : row.correct / row.total >= 0.5 ? "text-amber-500" : "text-red-500")}>
+                                                        {Math.round(row.correct / row.total * 100)}%
+                                                        <span className="text-gray-700"> ({row.correct}/{row.total})</span>
+                                                    </span>
+                                                ) : <span className="text-gray-800">-</span>}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            )}
+
+            {events.length > 0 && (
+                <section className="mt-12 border border-white/10 rounded-lg p-3 bg-white/[0.01]">
+                    <h2 className="text-[10px] font-black tracking-widest text-gray-500 uppercase mb-3 border-b border-white/5 pb-2">Activity Timeline</h2>
+                    <ol className="space-y-0.5 max-h-96 overflow-y-auto scrollbar-hide">
+                        {events.map(e => (
+                            <li key={e.id} className="flex gap-2 items-baseline text-[8px]">
+                                <span className="font-mono text-gray-600 whitespace-nowrap">{formatEventTime(e.created_at)}</span>
+                                <span className="font-mono text-cyan-700 truncate max-w-[80px]">{e.user_id}</span>
+                                <span className="bg-white/5 px-1 rounded-sm text-gray-500 whitespace-nowrap">{sourceLabels[e.source]}</span>
+                                <span className="text-gray-400 truncate">{describeEvent(e)}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </section>
+            )}
+
             {users.length === 0 && !loading && (
                 <div className="h-64 flex items-center justify-center text-gray-700 italic">
                     No user data found.
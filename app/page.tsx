@@ -1,9 +1,23 @@
 "use client";
 
-import { useEffect, useState } from 'react';
-import { supabase } from '@/utils/supabaseClient';
-import { Task } from '@/types';
-import { CheckCircle2, Trash2, RefreshCw, HelpCircle } from 'lucide-react';
+import { ReactNode, useEffect, useRef, useState } from 'react';
+import { Category, PRIORITIES, Priority, RankColumn, Status, Task, TaskEvent } from '@/types';
+import { compareTasks, keyBetween, keysAfter } from '@/utils/taskOrder';
+import { dueLevel, formatDue } from '@/utils/dueDate';
+import { describeEvent, formatEventTime, sourceLabels } from '@/utils/taskEventFormat';
+import { classifyTasks } from '@/utils/taskClassifier';
+import { findDuplicate, mergePatch } from '@/utils/duplicates';
+import { isTopLevel, subtaskProgress, subtasksOf } from '@/utils/subtasks';
+import { NoteInline, parseNotes } from '@/utils/notes';
+import { formatRecurrence, parseRecurrence } from '@/utils/recurrence';
+import { CATEGORY_COLORS, categoryKey, matchCategory } from '@/utils/categoryNames';
+import { mergeTaskChange, RealtimeStatus, subscribeToTasks } from '@/utils/realtimeTasks';
+import { applyPending, createdIds, draftTask, Mutation, nextSeq, pendingPatch, remapIds, rollback, sendMutation } from '@/utils/outbox';
+import { deleteMutation, loadBoard, loadOutbox, saveBoard, saveMutation } from '@/utils/offlineStore';
+import { DEFAULT_RANK_COLUMNS, rankTitle } from '@/utils/rankColumns';
+import { canTransition, isOnBoard, isStatus, STATUS_DEFINITIONS } from '@/utils/statuses';
+import { daysUntilPurge, trashedTasks } from '@/utils/trash';
+import { CheckCircle2, Trash2, RefreshCw, HelpCircle, History, Merge, ListChecks, FileText, Repeat } from 'lucide-react';
 import clsx from 'clsx';
 import {
   DndContext,
@@ -18,7 +32,7 @@ import {
   DragEndEvent,
   useDroppable,
 } from '@dnd-kit/core';
-import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useSearchParams } from 'next/navigation';
 import { Suspense } from 'react';
@@ -27,8 +41,10 @@ const SYSTEM_VERSION = '26.01.22.20:01';
 
 function DashboardContent() {
   const searchParams = useSearchParams();
-  const userIdFromUrl = searchParams.get('u');
+  const linkToken = searchParams.get('t');
 
+  const [userId, setUserId] = useState<string | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -41,13 +57,32 @@ function DashboardContent() {
   const [version, setVersion] = useState('');
   const [newTaskValue, setNewTaskValue] = useState('');
   const [isAdding, setIsAdding] = useState(false);
-  const [devRankName, setDevRankName] = useState('自由設定（名前変更可能）');
-  const [ideaRankName, setIdeaRankName] = useState('💡 アイデア（名前変更可能）');
-  const [isEditingDevName, setIsEditingDevName] = useState(false);
+  const [rankColumns, setRankColumns] = useState<RankColumn[]>(DEFAULT_RANK_COLUMNS);
+  const [showRankSettings, setShowRankSettings] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(30);
   const [justAddedIds, setJustAddedIds] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [lastFetchedAt, setLastFetchedAt] = useState<string>('');
+  const [liveStatus, setLiveStatus] = useState<RealtimeStatus>('connecting');
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [historyTaskId, setHistoryTaskId] = useState<string | null>(null);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  // First card picked for a merge; picking a second card merges the first into it
+  const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateSuspect[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  // For the realtime handler, which is set up once per user
+  const categoriesRef = useRef<Category[]>([]);
+  // Changes not yet accepted by the server, oldest first; see mutate()
+  const outbox = useRef<Mutation[]>([]);
+  const flushing = useRef(false);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Resolves each mutate() call once its change is saved, queued offline, or rejected
+  const settlers = useRef(new Map<number, (ok: boolean) => void>());
+  // The board is cached only once it has been loaded, so an empty first render cannot overwrite it
+  const boardLoaded = useRef(false);
 
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
@@ -60,6 +95,19 @@ function DashboardContent() {
     return closestCorners(args);
   };
 
+  // The latest render's functions, for listeners, timers and async work that outlive the render that
+  // started them, so a refetch or a queued send never runs with an old user or board. Updated first of all effects.
+  const latest = useRef<{
+    initSession: () => Promise<void>;
+    fetchTasks: () => Promise<void>;
+    flushOutbox: () => Promise<void>;
+    flashNew: (ids: string[]) => void;
+    loadCategories: () => Promise<void>;
+  } | null>(null);
+  useEffect(() => {
+    latest.current = { initSession, fetchTasks, flushOutbox, flashNew, loadCategories };
+  });
+
   useEffect(() => {
     setVersion(SYSTEM_VERSION);
 
@@ -70,21 +118,53 @@ function DashboardContent() {
       localStorage.setItem('help_shown_v1', 'true');
     }
 
-    const savedDevName = localStorage.getItem('dev_rank_name');
-    if (savedDevName) setDevRankName(savedDevName);
-    const savedIdeaName = localStorage.getItem('idea_rank_name');
-    if (savedIdeaName) setIdeaRankName(savedIdeaName);
+    // Last known columns, so the board does not flash the defaults before settings load
+    try {
+      const savedColumns = JSON.parse(localStorage.getItem('rank_columns') ?? 'null');
+      if (Array.isArray(savedColumns)) setRankColumns(savedColumns);
+    } catch { /* ignore a corrupt cache */ }
+
+    latest.current?.initSession();
+  }, [linkToken]);
 
-    if (userIdFromUrl) {
-      logAccess(userIdFromUrl, window.location.pathname);
-      loadUserSettings(userIdFromUrl);
+  useEffect(() => {
+    if (userId) {
+      logAccess(window.location.pathname);
+      loadUserSettings();
     }
-  }, [userIdFromUrl]);
+  }, [userId]);
 
-  const logAccess = (userId: string, path: string) => {
+  // Exchange the LINE link token (?t=...) for a session cookie, then drop it from the URL
+  const initSession = async () => {
+    try {
+      if (linkToken) {
+        const res = await fetch('/api/auth/session', {
+          method: 'POST',
+          body: JSON.stringify({ token: linkToken }),
+        });
+        window.history.replaceState(null, '', window.location.pathname);
+        if (res.ok) {
+          const data = await res.json();
+          setUserId(data.userId);
+          return;
+        }
+      }
+      const res = await fetch('/api/auth/session');
+      if (res.ok) {
+        const data = await res.json();
+        setUserId(data.userId);
+      }
+    } catch (err) {
+      console.error("Failed to init session:", err);
+    } finally {
+      setAuthChecked(true);
+    }
+  };
+
+  const logAccess = (path: string) => {
     fetch('/api/log-access', {
       method: 'POST',
-      body: JSON.stringify({ userId, path }),
+      body: JSON.stringify({ path }),
     }).catch(console.error);
   };
 
@@ -96,172 +176,389 @@ function DashboardContent() {
     }).catch(console.error);
   };
 
-  const loadUserSettings = async (userId: string) => {
+  const loadUserSettings = async () => {
     try {
-      const res = await fetch(`/api/user-settings?userId=${userId}`);
+      const res = await fetch('/api/user-settings');
       const data = await res.json();
-      if (data.dev_rank_name) {
-        setDevRankName(data.dev_rank_name);
-        localStorage.setItem('dev_rank_name', data.dev_rank_name);
-      }
-      if (data.idea_rank_name) {
-        setIdeaRankName(data.idea_rank_name);
-        localStorage.setItem('idea_rank_name', data.idea_rank_name);
+      if (Array.isArray(data.rank_columns)) {
+        setRankColumns(data.rank_columns);
+        localStorage.setItem('rank_columns', JSON.stringify(data.rank_columns));
       }
+      if (data.trash_retention_days !== undefined) setTrashRetentionDays(data.trash_retention_days);
     } catch (err) {
       console.error("Failed to load settings:", err);
     }
   };
 
-  const saveDevName = async (newName: string) => {
-    setDevRankName(newName);
-    localStorage.setItem('dev_rank_name', newName);
-    setIsEditingDevName(false);
-
-    if (userIdFromUrl) {
-      fetch('/api/user-settings', {
-        method: 'POST',
-        body: JSON.stringify({ userId: userIdFromUrl, devRankName: newName }),
-      }).catch(console.error);
+  const saveTrashRetention = async (days: number | null) => {
+    const previous = trashRetentionDays;
+    setTrashRetentionDays(days);
+    const res = await fetch('/api/user-settings', {
+      method: 'POST',
+      body: JSON.stringify({ trashRetentionDays: days }),
+    }).catch(() => null);
+    if (!res?.ok) {
+      setTrashRetentionDays(previous);
+      setError('ゴミ箱の保存期間を変更できませんでした');
     }
   };
 
-  const saveIdeaName = async (newName: string) => {
-    setIdeaRankName(newName);
-    localStorage.setItem('idea_rank_name', newName);
-    if (userIdFromUrl) {
-      fetch('/api/user-settings', {
+  // Resolves to the server's error message, or null once saved
+  const saveRankColumns = async (columns: RankColumn[]): Promise<string | null> => {
+    try {
+      const res = await fetch('/api/user-settings', {
         method: 'POST',
-        body: JSON.stringify({ userId: userIdFromUrl, ideaRankName: newName }),
-      }).catch(console.error);
+        body: JSON.stringify({ rankColumns: columns }),
+      });
+      if (!res.ok) return (await res.json().catch(() => null))?.error ?? `HTTP ${res.status}`;
+    } catch {
+      return 'オフラインのため保存できません';
     }
+    setRankColumns(columns);
+    localStorage.setItem('rank_columns', JSON.stringify(columns));
+    return null;
   };
 
   const fetchTasks = async () => {
-    if (!userIdFromUrl) {
-      setLoading(false);
+    if (!userId) {
+      setLoading(!authChecked);
       return;
     }
     setLoading(true);
     setError(null);
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', userIdFromUrl)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching tasks:', error);
-      notifyError(error, "タスク読み込み");
+    let res: Response;
+    try {
+      res = await fetch('/api/tasks');
+    } catch {
+      // Offline: show the board as it was last seen
+      const cached = await loadBoard(userId).catch(() => null);
+      if (cached) {
+        setTasks(applyPending(cached, outbox.current));
+        boardLoaded.current = true;
+      }
+      setLoading(false);
+      return;
+    }
+    const data = await res.json().catch(() => null);
+
+    if (!res.ok) {
+      console.error('Error fetching tasks:', data);
+      notifyError(data, "タスク読み込み");
     } else {
-      setTasks(data as Task[]);
+      setTasks(applyPending(data as Task[], outbox.current));
+      boardLoaded.current = true;
+      loadCategories();
       const now = new Date();
       setLastFetchedAt(`${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}`);
     }
     setLoading(false);
   };
 
+  // New category names from added tasks are created on the server, so this follows every task load
+  const loadCategories = async () => {
+    const res = await fetch('/api/categories');
+    if (res.ok) setCategories(await res.json());
+  };
+
+  const updateCategoryColor = async (id: string, color: string) => {
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, color } : c));
+    const res = await fetch(`/api/categories/${id}`, { method: 'PATCH', body: JSON.stringify({ color }) });
+    if (!res.ok) notifyError(await res.json().catch(() => null), "カテゴリ更新");
+  };
+
+  const getCategoryColor = (name: string) => matchCategory(name, categories)?.color ?? null;
+
   useEffect(() => {
-    fetchTasks();
-    const onFocus = () => fetchTasks();
+    latest.current?.fetchTasks();
+    const onFocus = () => latest.current?.fetchTasks();
     window.addEventListener('focus', onFocus);
     return () => window.removeEventListener('focus', onFocus);
-  }, [userIdFromUrl]);
+  }, [userId, authChecked]);
+
+  useEffect(() => {
+    categoriesRef.current = categories;
+  }, [categories]);
+
+  // Tasks sent from LINE or changed on another device appear without a refetch
+  useEffect(() => {
+    if (!userId) return;
+    return subscribeToTasks(userId, {
+      onChange: change => {
+        setTasks(prev => mergeTaskChange(prev, change, change.type === 'DELETE' ? undefined : pendingPatch(outbox.current, change.task.id)));
+        if (change.type === 'INSERT') latest.current?.flashNew([change.task.id]);
+        if (change.type !== 'DELETE' && change.task.category && !matchCategory(change.task.category, categoriesRef.current)) latest.current?.loadCategories();
+      },
+      onStatus: setLiveStatus,
+      onResync: () => latest.current?.fetchTasks(),
+    });
+  }, [userId]);
+
+  useEffect(() => {
+    if (userId && boardLoaded.current) saveBoard(userId, tasks).catch(console.error);
+  }, [userId, tasks]);
+
+  // Changes queued in an earlier visit are sent now, and queued ones whenever the connection returns
+  useEffect(() => {
+    if (!userId) return;
+    loadOutbox(userId).then(queued => {
+      outbox.current = [...queued, ...outbox.current.filter(m => !queued.some(q => q.seq === m.seq))];
+      setPendingSyncCount(outbox.current.length);
+      setTasks(prev => applyPending(prev, queued));
+      latest.current?.flushOutbox();
+    }).catch(console.error);
+    const onOnline = () => latest.current?.flushOutbox();
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [userId]);
+
+  // Every change is shown at once and sent through the outbox (utils/outbox.ts), which keeps it
+  // across reloads until the server is reachable. Resolves to false if the server rejected it.
+  const mutate = (change: Omit<Mutation, 'seq' | 'userId'>) => {
+    const mutation: Mutation = { ...change, seq: nextSeq(), userId: userId! };
+    setTasks(prev => applyPending(prev, [mutation]));
+    outbox.current.push(mutation);
+    setPendingSyncCount(outbox.current.length);
+    saveMutation(mutation).catch(console.error);
+    const settled = new Promise<boolean>(resolve => settlers.current.set(mutation.seq, resolve));
+    flushOutbox();
+    return settled;
+  };
 
-  const updateStatus = async (id: string, status: string) => {
-    await supabase.from('tasks').update({ status }).eq('id', id);
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, status: status as any } : t));
+  const settle = (seq: number, ok: boolean) => {
+    settlers.current.get(seq)?.(ok);
+    settlers.current.delete(seq);
+  };
+
+  // Sends queued mutations one at a time, in order, until the outbox is empty or the server is unreachable
+  const flushOutbox = async () => {
+    if (flushing.current) return;
+    flushing.current = true;
+    clearTimeout(retryTimer.current);
+    while (outbox.current.length > 0) {
+      const mutation = outbox.current[0];
+      const result = await sendMutation(mutation);
+      if (result.status === 'offline') {
+        outbox.current.forEach(m => settle(m.seq, true));
+        // Without an `online` event to wait for, the server itself is down; try again later
+        if (navigator.onLine) retryTimer.current = setTimeout(() => latest.current?.flushOutbox(), 30_000);
+        break;
+      }
+
+      outbox.current.shift();
+      deleteMutation(mutation.seq).catch(console.error);
+      if (result.status === 'applied') {
+        // Later changes to tasks created offline go to the ids the server gave them
+        const ids = createdIds(mutation, result.tasks);
+        if (ids.size > 0) {
+          outbox.current = outbox.current.map(m => remapIds(m, ids));
+          outbox.current.forEach(m => saveMutation(m).catch(console.error));
+        }
+        setTasks(prev => result.tasks.reduce(
+          (board, task) => mergeTaskChange(board, { type: 'UPDATE', task }, pendingPatch(outbox.current, task.id)),
+          prev.filter(t => !ids.has(t.id))
+        ));
+        if (mutation.refetch) latest.current?.fetchTasks();
+      } else {
+        setTasks(prev => rollback(prev, mutation));
+        setError(`「${mutation.label}」を保存できなかったため元に戻しました（${result.error}）`);
+      }
+      settle(mutation.seq, result.status === 'applied');
+      setPendingSyncCount(outbox.current.length);
+    }
+    flushing.current = false;
+  };
+
+  const patchTask = (task: Task, patch: Partial<Task>, label: string, refetch = false) =>
+    mutate({ label, method: 'PATCH', path: `/api/tasks/${task.id}`, body: patch, before: [task], after: [{ ...task, ...patch }], refetch });
+
+  // 5秒間ハイライト
+  const flashNew = (ids: string[]) => {
+    setJustAddedIds(prev => [...prev, ...ids]);
+    setTimeout(() => setJustAddedIds(prev => prev.filter(id => !ids.includes(id))), 5000);
+  };
+
+  const updateStatus = async (id: string, status: Status) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    if (!canTransition(task.status, status)) {
+      setError(`${task.status}のタスクは${STATUS_DEFINITIONS[status].label}にできません`);
+      return;
+    }
+    // Completing a recurring task makes the server create the next occurrence
+    await patchTask(task, { status }, 'ステータス変更', status === '完了' && !!task.recurrence);
   };
 
   const updatePriority = async (id: string, priority: string) => {
-    await supabase.from('tasks').update({ priority, status: '未処理' }).eq('id', id);
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, priority: priority as any, status: '未処理' } : t));
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    // The server picks the position at the end of the new column
+    await patchTask(task, { priority: priority as Priority, status: '未処理' }, 'ランク変更');
+  };
+
+  // Places `task` at `insertAt` in `column` (the target column without the task itself).
+  // Columns from before manual ordering get keys backfilled once; after that a move is one write.
+  const moveTask = async (task: Task, column: Task[], insertAt: number, patch: Partial<Task>) => {
+    let keyed = column;
+    if (column.some(t => !t.sort_key)) {
+      const keys = keysAfter(null, column.length);
+      keyed = column.map((t, i) => ({ ...t, sort_key: keys[i] }));
+      column.forEach((t, i) => patchTask(t, { sort_key: keys[i] }, '並び替え'));
+    }
+    const sortKey = keyBetween(keyed[insertAt - 1]?.sort_key ?? null, keyed[insertAt]?.sort_key ?? null);
+    await patchTask(task, { ...patch, sort_key: sortKey }, '並び替え');
   };
 
   const updateTitle = async (id: string, title: string) => {
-    if (!title.trim()) return;
-    await supabase.from('tasks').update({ title: title.trim() }).eq('id', id);
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, title: title.trim() } : t));
+    const task = tasks.find(t => t.id === id);
+    if (!task || !title.trim()) return;
     setEditingId(null);
+    await patchTask(task, { title: title.trim() }, 'タイトル変更');
+  };
+
+  const updateDetail = async (id: string, patch: Partial<Task>) => {
+    const task = tasks.find(t => t.id === id);
+    return task ? patchTask(task, patch, 'タスク保存') : false;
+  };
+
+  const restoreTask = async (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    await mutate({ label: '復元', method: 'POST', path: `/api/tasks/${id}/restore`, before: [task], after: [{ ...task, status: '未処理' }] });
   };
 
+  // Outside the trash, deleting moves a task there; the server refuses to delete anything else for good
+  const trashTask = (id: string) => updateStatus(id, '削除済み');
+
+  // The drawer asks for confirmation before any of the permanent deletes
   const deleteTaskPermanently = async (id: string) => {
-    if (confirm('完全に削除しますか？')) {
-      await supabase.from('tasks').delete().eq('id', id);
-      setTasks(prev => prev.filter(t => t.id !== id));
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+    await mutate({ label: '完全削除', method: 'DELETE', path: `/api/tasks/${id}`, before: [task], after: [] });
+  };
+
+  const emptyTrash = async (ids: string[]) => {
+    const items = tasks.filter(t => ids.includes(t.id));
+    if (items.length === 0) return;
+    await mutate({ label: 'ゴミ箱を空にする', method: 'DELETE', path: '/api/tasks/trash', body: { ids: items.map(t => t.id) }, before: items, after: [] });
+  };
+
+  const restoreAll = async (ids: string[]) => {
+    const items = tasks.filter(t => ids.includes(t.id));
+    if (items.length === 0) return;
+    const restored = items.map(t => ({ ...t, status: '未処理' as const, deleted_at: null }));
+    await mutate({ label: 'すべて復元', method: 'PATCH', path: '/api/tasks', body: { ids: items.map(t => t.id), patch: { status: '未処理' } }, before: items, after: restored });
+  };
+
+  // New tasks show up at once under temporary ids, which the server's ids replace once it has created them
+  const insertTasks = (toInsert: NewTask[]) => {
+    const drafts = toInsert.map(t => draftTask(userId!, t));
+    flashNew(drafts.map(t => t.id));
+    mutate({ label: 'タスク追加', method: 'POST', path: '/api/tasks', body: { tasks: toInsert }, before: [], after: drafts })
+      .then(ok => {
+        if (ok) loadCategories();
+      });
+  };
+
+  // AI analysis like the LINE bot; without a connection to it, the same local classifier as its fallback.
+  // The server records tasks as the AI's only if they carry the analysis' signature.
+  const analyzeTasks = async (text: string): Promise<NewTask[]> => {
+    if (navigator.onLine) {
+      try {
+        const response = await fetch('/api/tasks/analyze', {
+          method: 'POST',
+          body: JSON.stringify({ text }),
+        });
+        const data = await response.json();
+        if (response.ok && Array.isArray(data)) return data;
+        notifyError(data, "タスク追加");
+      } catch (err) {
+        console.error('Failed to analyze tasks:', err);
+      }
     }
+    return classifyTasks(text);
   };
 
   const handleAddTask = async () => {
-    if (!newTaskValue.trim() || !userIdFromUrl || isAdding) return;
+    if (!newTaskValue.trim() || !userId || isAdding) return;
     setIsAdding(true);
     try {
-      // Use AI analysis similar to LINE bot to determine priority
-      const response = await fetch('/api/tasks/analyze', {
-        method: 'POST',
-        body: JSON.stringify({ text: newTaskValue.trim() }),
-      });
-      const analyzed = await response.json();
-
-      const toInsert = analyzed.map((t: any) => ({
-        ...t,
-        user_id: userIdFromUrl,
-        status: '未処理'
-      }));
-
-      const { data, error: insertError } = await supabase.from('tasks').insert(toInsert).select();
-      if (!insertError && data) {
-        setTasks(prev => [...(data as Task[]), ...prev]);
-        const ids = (data as Task[]).map(t => t.id);
-        setJustAddedIds(ids);
-        setTimeout(() => setJustAddedIds([]), 5000); // 5秒間ハイライト
-        setNewTaskValue('');
-      } else if (insertError) {
-        throw insertError;
-      }
-    } catch (err) {
-      console.error('Failed to add task:', err);
-      notifyError(err, "タスク追加");
-      // Fallback: add as IDEA if analysis fails
-      const { data, error } = await supabase.from('tasks').insert([{
-        title: newTaskValue.trim(),
-        user_id: userIdFromUrl,
-        priority: 'IDEA',
-        status: '未処理',
-        category: '手動入力'
-      }]).select();
-      if (!error && data) {
-        setTasks(prev => [...(data as Task[]), ...prev]);
-        setJustAddedIds([(data as Task[])[0].id]);
-        setTimeout(() => setJustAddedIds([]), 5000);
-        setNewTaskValue('');
+      const analyzed = await analyzeTasks(newTaskValue.trim());
+
+      // Likely duplicates are held back and shown in DuplicateModal
+      const toInsert: NewTask[] = [];
+      const suspects: DuplicateSuspect[] = [];
+      for (const t of analyzed) {
+        const duplicate = findDuplicate(t.title ?? '', tasks);
+        if (duplicate) suspects.push({ candidate: { ...t, status: '未処理' }, existing: duplicate.task });
+        else toInsert.push({ ...t, status: '未処理' });
       }
+      setDuplicates(suspects);
+
+      if (toInsert.length > 0) insertTasks(toInsert);
+      setNewTaskValue('');
     } finally {
       setIsAdding(false);
     }
   };
 
-  const getActiveTasks = (priority: string) => tasks.filter(t => t.priority === priority && !['完了', '削除済み', '保留', '静観'].includes(t.status));
+  const resolveDuplicate = async (suspect: DuplicateSuspect, action: 'merge' | 'add') => {
+    setDuplicates(prev => prev.filter(d => d !== suspect));
+    if (action === 'merge') {
+      const existing = tasks.find(t => t.id === suspect.existing.id) ?? suspect.existing;
+      const patch = mergePatch(existing, suspect.candidate as Task);
+      if (Object.keys(patch).length > 0) await patchTask(existing, patch, 'タスク統合');
+      return;
+    }
+    insertTasks([suspect.candidate]);
+  };
+
+  const handleMerge = async (id: string) => {
+    if (!mergeSourceId || mergeSourceId === id) {
+      setMergeSourceId(mergeSourceId === id ? null : id);
+      return;
+    }
+    const source = tasks.find(t => t.id === mergeSourceId);
+    const target = tasks.find(t => t.id === id);
+    setMergeSourceId(null);
+    if (!source || !target) return;
+
+    await mutate({
+      label: 'タスク統合',
+      method: 'POST',
+      path: `/api/tasks/${id}/merge`,
+      body: { from: source.id },
+      before: [target, source],
+      after: [{ ...target, ...mergePatch(target, source) }, { ...source, status: '削除済み' }],
+    });
+  };
+
+  const addSubtask = async (parentId: string, title: string) => {
+    const parent = tasks.find(t => t.id === parentId);
+    if (!parent || !title.trim()) return;
+    const draft = draftTask(parent.user_id, { title: title.trim(), parent_id: parentId, category: parent.category, priority: parent.priority });
+    await mutate({ label: 'サブタスク追加', method: 'POST', path: `/api/tasks/${parentId}/subtasks`, body: { titles: [title.trim()] }, before: [], after: [draft] });
+  };
+
+  const getSubtasks = (parentId: string) => subtasksOf(tasks, parentId);
 
-  const applySearch = (items: Task[]) => {
+  // Subtasks are shown inside their parent's card, never as cards of their own
+  const topLevelTasks = tasks.filter(t => isTopLevel(t) && (!categoryFilter || categoryKey(t.category) === categoryKey(categoryFilter)));
+  const selectedCategory = categoryFilter ? categories.find(c => c.name === categoryFilter) : undefined;
+  const getActiveTasks = (priority: string) => topLevelTasks.filter(t => t.priority === priority && isOnBoard(t.status)).sort(compareTasks);
+
+  const applySearch = (items: Task[]): SearchedTask[] => {
     if (!searchQuery.trim()) return items;
     const q = searchQuery.toLowerCase();
     return items.map(t => ({
       ...t,
-      isHiddenBySearch: !(t.title.toLowerCase().includes(q) || (t.category && t.category.toLowerCase().includes(q)))
+      isHiddenBySearch: !(t.title.toLowerCase().includes(q) || (t.category && t.category.toLowerCase().includes(q)) || (t.notes && t.notes.toLowerCase().includes(q)))
     }));
   };
 
-  const sTasks = applySearch(getActiveTasks('S'));
-  const aTasks = applySearch(getActiveTasks('A'));
-  const bTasks = applySearch(getActiveTasks('B'));
-  const cTasks = applySearch(getActiveTasks('C'));
-  const devTasks = applySearch(getActiveTasks('DEV'));
-  const ideaTasks = applySearch(getActiveTasks('IDEA'));
-  const doneTasks = applySearch(tasks.filter(t => t.status === '完了'));
-  const trashTasks = applySearch(tasks.filter(t => t.status === '削除済み'));
-  const pendingTasks = applySearch(tasks.filter(t => t.status === '保留'));
-  const watchTasks = applySearch(tasks.filter(t => t.status === '静観'));
+  const doneTasks = applySearch(topLevelTasks.filter(t => t.status === '完了'));
+  const trashTasks = applySearch(trashedTasks(topLevelTasks));
+  const pendingTasks = applySearch(topLevelTasks.filter(t => t.status === '保留'));
+  const watchTasks = applySearch(topLevelTasks.filter(t => t.status === '静観'));
 
   const onDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
@@ -272,52 +569,44 @@ function DashboardContent() {
 
     if (activeId === overId) return;
 
-    const statusMap: Record<string, string> = {
+    // Drop zones in the strip; open drawers are droppable under their status
+    const dropZones: Record<string, Status> = {
       'done_zone': '完了',
-      '完了': '完了',
       'progress_zone': '進行中',
-      'dev_zone': '開発中',
-      '開発中': '開発中',
       'trash_zone': '削除済み',
-      '削除済み': '削除済み',
       'pending_zone': '保留',
-      '保留': '保留',
       'watch_zone': '静観',
-      '静観': '静観'
     };
+    const targetStatus = dropZones[overId] ?? (isStatus(overId) ? overId : undefined);
 
-    if (statusMap[overId]) {
-      updateStatus(activeId, statusMap[overId]);
+    if (targetStatus) {
+      updateStatus(activeId, targetStatus);
       return;
-    } else if (['S', 'A', 'B', 'C', 'DEV', 'IDEA'].includes(overId)) {
+    } else if (PRIORITIES.includes(overId as Priority)) {
       updatePriority(activeId, overId);
       return;
     }
 
-    const activeIndex = tasks.findIndex(t => t.id === activeId);
-    const overIndex = tasks.findIndex(t => t.id === overId);
+    const activeTask = tasks.find(t => t.id === activeId);
+    const overTask = tasks.find(t => t.id === overId);
 
-    if (activeIndex !== -1 && overIndex !== -1) {
-      const activeTask = tasks[activeIndex];
-      const overTask = tasks[overIndex];
+    if (activeTask && overTask) {
+      const targetColumn = getActiveTasks(overTask.priority);
+      const column = targetColumn.filter(t => t.id !== activeId);
+      // Moving down within a column lands after the target card, otherwise before it
+      const movingDown = activeTask.priority === overTask.priority && targetColumn.indexOf(activeTask) < targetColumn.indexOf(overTask);
+      const insertAt = column.indexOf(overTask) + (movingDown ? 1 : 0);
 
+      const patch: Partial<Task> = {};
       if (activeTask.priority !== overTask.priority || activeTask.status !== overTask.status) {
-        const newPriority = overTask.priority;
-        const newStatus = overTask.status;
-        supabase.from('tasks').update({ priority: newPriority, status: newStatus }).eq('id', activeId).then(() => {
-          setTasks((items) => {
-            const list = [...items];
-            list[activeIndex] = { ...activeTask, priority: newPriority as any, status: newStatus as any };
-            return arrayMove(list, activeIndex, overIndex);
-          });
-        });
-      } else {
-        setTasks((items) => arrayMove(items, activeIndex, overIndex));
+        patch.priority = overTask.priority;
+        patch.status = overTask.status;
       }
+      moveTask(activeTask, column, insertAt, patch);
     }
   };
 
-  if (!userIdFromUrl) {
+  if (authChecked && !userId) {
     return (
       <div className="min-h-screen bg-[#FDFDFD] flex items-center justify-center text-gray-500 font-sans p-4">
         <div className="max-w-xs w-full bg-white border border-gray-100 rounded-lg p-6 text-center space-y-4 shadow-xl">
@@ -329,7 +618,7 @@ function DashboardContent() {
           <h2 className="text-sm font-black tracking-widest uppercase text-gray-800">Access Denied</h2>
           <div className="space-y-2">
             <p className="text-[10px] leading-relaxed text-gray-500">
-              セキュリティ保護のため、このページはLINEの「ダッシュボードを開く」リンクからのみアクセス可能です。
+              セキュリティ保護のため、このページはLINEの「ダッシュボードを開く」リンクからのみアクセス可能です。リンクの有効期限（15分）が切れている場合は、新しいリンクを取得してください。
             </p>
             <div className="bg-gray-50 p-3 rounded text-[9px] text-left space-y-1 text-gray-400 italic">
               <p>解決方法：</p>
@@ -378,8 +667,13 @@ function DashboardContent() {
             タスク自動整理 <span className="text-gray-400">ver{version}</span>
           </h1>
           {lastFetchedAt && (
-            <span className="text-[7px] text-gray-400 font-mono tracking-tighter uppercase whitespace-nowrap bg-gray-100 px-1 rounded-sm">
-              Sync: {lastFetchedAt}
+            <span className="text-[7px] text-gray-400 font-mono tracking-tighter uppercase whitespace-nowrap bg-gray-100 px-1 rounded-sm" title={liveStatus === 'live' ? 'リアルタイム同期中' : 'リアルタイム同期なし（画面に戻ったときに更新）'}>
+              <span className={liveStatus === 'live' ? 'text-emerald-500' : 'text-gray-300'}>●</span> Sync: {lastFetchedAt}
+            </span>
+          )}
+          {pendingSyncCount > 0 && (
+            <span className="text-[7px] text-amber-600 font-mono tracking-tighter whitespace-nowrap bg-amber-50 px-1 rounded-sm" title="サーバーに未送信の変更（接続が戻ると送信します）">
+              未送信 {pendingSyncCount}
             </span>
           )}
         </div>
@@ -398,6 +692,18 @@ function DashboardContent() {
             {searchQuery && <button onClick={() => setSearchQuery('')} className="text-[8px] text-gray-400 hover:text-gray-900">×</button>}
           </div>
 
+          {categories.length > 0 && (
+            <div className="flex items-center gap-0.5 bg-gray-100/50 border border-gray-200 rounded px-1 h-5">
+              <select value={categoryFilter ?? ''} onChange={(e) => setCategoryFilter(e.target.value || null)} className="bg-transparent outline-none text-[9px] text-gray-700 max-w-[90px]">
+                <option value="">全カテゴリ</option>
+                {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+              </select>
+              {selectedCategory && CATEGORY_COLORS.map(color => (
+                <button key={color} onClick={() => updateCategoryColor(selectedCategory.id, color)} className={clsx("w-2 h-2 rounded-full", selectedCategory.color === color && "ring-1 ring-offset-1 ring-gray-400")} style={{ backgroundColor: color }} title="カテゴリの色" />
+              ))}
+            </div>
+          )}
+
           <div className="flex-[2] flex items-center bg-gray-100/50 border border-gray-200 rounded px-2 h-5 focus-within:border-emerald-500/50 transition-colors">
             <input
               type="text"
@@ -432,72 +738,75 @@ function DashboardContent() {
         <div className="flex-1 flex flex-col md:flex-row gap-1 relative overflow-hidden mb-14 md:mb-0">
 
           <main className="flex-1 grid grid-cols-2 md:grid-cols-6 gap-0.5 md:gap-1 h-full overflow-hidden">
-            <DroppableColumn id="S" title="S: 重要+緊急" color="text-[#D32F2F]" bgColor="bg-[#FFF5F5]" borderColor="border-[#FFEBEE]" tasks={sTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} justAddedIds={justAddedIds} />
-            <DroppableColumn id="A" title="A: 緊急のみ" color="text-[#F57C00]" bgColor="bg-[#FFF9F0]" borderColor="border-[#FFF3E0]" tasks={aTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} justAddedIds={justAddedIds} />
-            <DroppableColumn id="B" title="B: 重要のみ" color="text-[#1976D2]" bgColor="bg-[#F0F7FF]" borderColor="border-[#E3F2FD]" tasks={bTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} justAddedIds={justAddedIds} />
-            <DroppableColumn id="C" title="C: 低優先" color="text-[#388E3C]" bgColor="bg-[#F1F9F1]" borderColor="border-[#E8F5E9]" tasks={cTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} justAddedIds={justAddedIds} />
-            <DroppableColumn id="DEV" title={devRankName} color="text-[#7B1FA2]" bgColor="bg-[#F9F4FC]" borderColor="border-[#F3E5F5]" tasks={devTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} isEditableTitle={true} onTitleSave={saveDevName} justAddedIds={justAddedIds} />
-            <DroppableColumn id="IDEA" title={ideaRankName} color="text-[#C2185B]" bgColor="bg-[#FFF4F9]" borderColor="border-[#FCE4EC]" tasks={ideaTasks} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} isEditableTitle={true} onTitleSave={saveIdeaName} justAddedIds={justAddedIds} />
+            {rankColumns.map(column => (
+              <DroppableColumn key={column.key} id={column.key} title={rankTitle(column)} color={column.color} tasks={applySearch(getActiveTasks(column.key))} editingId={editingId} editValue={editValue} setEditingId={setEditingId} setEditValue={setEditValue} updateTitle={updateTitle} updateStatus={updateStatus} onEditColumns={() => setShowRankSettings(true)} justAddedIds={justAddedIds} onShowHistory={setHistoryTaskId} onShowDetail={setDetailTaskId} getCategoryColor={getCategoryColor} mergeSourceId={mergeSourceId} onMerge={handleMerge} getSubtasks={getSubtasks} onAddSubtask={addSubtask} />
+            ))}
           </main>
 
           <div className="fixed bottom-0 left-0 right-0 h-14 bg-white/95 backdrop-blur-md border-t border-gray-100 flex md:relative md:flex-col md:w-8 md:h-full md:bg-transparent md:border-none md:bottom-auto md:left-auto md:right-auto md:gap-1 z-30 px-1 py-1 md:p-0">
-            <DropZoneStrip id="done_zone" icon={<CheckCircle2 size={14} />} active={showDone} onClick={() => { setShowDone(!showDone); setShowTrash(false); setShowPending(false); setShowWatch(false); }} color="text-emerald-500" count={doneTasks.length} label="完了" />
-            <DropZoneStrip id="progress_zone" icon={<span className="text-[14px]">🏃</span>} active={false} onClick={() => { }} color="text-cyan-500" count={tasks.filter(t => t.status === '進行中').length} label="進行" />
-            <DropZoneStrip id="pending_zone" icon={<span className="text-[14px]">⏸️</span>} active={showPending} onClick={() => { setShowPending(!showPending); setShowDone(false); setShowTrash(false); setShowWatch(false); }} color="text-amber-500" count={pendingTasks.length} label="保留" />
-            <DropZoneStrip id="watch_zone" icon={<span className="text-[14px]">👀</span>} active={showWatch} onClick={() => { setShowWatch(!showWatch); setShowDone(false); setShowTrash(false); setShowPending(false); }} color="text-blue-500" count={watchTasks.length} label="静観" />
-            <DropZoneStrip id="trash_zone" icon={<Trash2 size={14} />} active={showTrash} onClick={() => { setShowTrash(!showTrash); setShowDone(false); setShowPending(false); setShowWatch(false); }} color="text-red-500" count={trashTasks.length} label="削除" />
+            <DropZoneStrip id="done_zone" icon={<CheckCircle2 size={14} />} active={showDone} onClick={() => { setShowDone(!showDone); setShowTrash(false); setShowPending(false); setShowWatch(false); }} color="text-emerald-500" count={doneTasks.length} label={STATUS_DEFINITIONS['完了'].label} />
+            <DropZoneStrip id="progress_zone" icon={<span className="text-[14px]">{STATUS_DEFINITIONS['進行中'].icon}</span>} active={false} onClick={() => { }} color="text-cyan-500" count={tasks.filter(t => t.status === '進行中').length} label={STATUS_DEFINITIONS['進行中'].label} />
+            <DropZoneStrip id="pending_zone" icon={<span className="text-[14px]">{STATUS_DEFINITIONS['保留'].icon}</span>} active={showPending} onClick={() => { setShowPending(!showPending); setShowDone(false); setShowTrash(false); setShowWatch(false); }} color="text-amber-500" count={pendingTasks.length} label={STATUS_DEFINITIONS['保留'].label} />
+            <DropZoneStrip id="watch_zone" icon={<span className="text-[14px]">{STATUS_DEFINITIONS['静観'].icon}</span>} active={showWatch} onClick={() => { setShowWatch(!showWatch); setShowDone(false); setShowTrash(false); setShowPending(false); }} color="text-blue-500" count={watchTasks.length} label={STATUS_DEFINITIONS['静観'].label} />
+            <DropZoneStrip id="trash_zone" icon={<Trash2 size={14} />} active={showTrash} onClick={() => { setShowTrash(!showTrash); setShowDone(false); setShowPending(false); setShowWatch(false); }} color="text-red-500" count={trashTasks.length} label={STATUS_DEFINITIONS['削除済み'].label} />
           </div>
 
-          {showDone && <SideDrawer id="完了" title="DONE" items={doneTasks} onClose={() => setShowDone(false)} onDelete={deleteTaskPermanently} onUpdateStatus={updateStatus} />}
-          {showPending && <SideDrawer id="保留" title="PENDING" items={pendingTasks} onClose={() => setShowPending(false)} onDelete={deleteTaskPermanently} onUpdateStatus={updateStatus} />}
-          {showWatch && <SideDrawer id="静観" title="WATCH" items={watchTasks} onClose={() => setShowWatch(false)} onDelete={deleteTaskPermanently} onUpdateStatus={updateStatus} />}
-          {showTrash && <SideDrawer id="削除済み" title="TRASH" items={trashTasks} onClose={() => setShowTrash(false)} onDelete={deleteTaskPermanently} onUpdateStatus={updateStatus} />}
+          {showDone && <SideDrawer id="完了" title={STATUS_DEFINITIONS['完了'].drawer} items={doneTasks} onClose={() => setShowDone(false)} onDelete={trashTask} onRestore={restoreTask} />}
+          {showPending && <SideDrawer id="保留" title={STATUS_DEFINITIONS['保留'].drawer} items={pendingTasks} onClose={() => setShowPending(false)} onDelete={trashTask} onRestore={restoreTask} />}
+          {showWatch && <SideDrawer id="静観" title={STATUS_DEFINITIONS['静観'].drawer} items={watchTasks} onClose={() => setShowWatch(false)} onDelete={trashTask} onRestore={restoreTask} />}
+          {showTrash && <SideDrawer id="削除済み" title={STATUS_DEFINITIONS['削除済み'].drawer} items={trashTasks} onClose={() => setShowTrash(false)} onDelete={deleteTaskPermanently} onRestore={restoreTask} onRestoreAll={() => restoreAll(trashTasks.map(t => t.id))} onEmpty={() => emptyTrash(trashTasks.map(t => t.id))} retentionDays={trashRetentionDays} onRetentionChange={saveTrashRetention} />}
 
           {showHelp && <HelpModal onClose={() => setShowHelp(false)} />}
+          {showRankSettings && <RankSettingsModal columns={rankColumns} onSave={saveRankColumns} onClose={() => setShowRankSettings(false)} />}
+          {duplicates.length > 0 && <DuplicateModal suspects={duplicates} onResolve={resolveDuplicate} onClose={() => setDuplicates([])} />}
+          {historyTaskId && <HistoryModal task={tasks.find(t => t.id === historyTaskId)} onClose={() => setHistoryTaskId(null)} />}
+          {detailTaskId && <DetailModal task={tasks.find(t => t.id === detailTaskId)} onSave={updateDetail} onClose={() => setDetailTaskId(null)} />}
         </div>
       </DndContext>
     </div>
   );
 }
 
-function DroppableColumn({ id, title, color, bgColor, borderColor, tasks, editingId, editValue, setEditingId, setEditValue, updateTitle, updateStatus, isEditableTitle, onTitleSave, justAddedIds }: any) {
-  const { setNodeRef, isOver } = useDroppable({ id });
-  const [isEditingHeader, setIsEditingHeader] = useState(false);
-  const [headerValue, setHeaderValue] = useState(title);
+// A task as listed while searching: the ones that do not match stay in place, faded
+type SearchedTask = Task & { isHiddenBySearch?: boolean };
 
-  useEffect(() => {
-    setHeaderValue(title);
-  }, [title]);
+interface DroppableColumnProps {
+  id: RankColumn['key'];
+  title: string;
+  color: RankColumn['color'];
+  tasks: SearchedTask[];
+  editingId: string | null;
+  editValue: string;
+  setEditingId: (id: string | null) => void;
+  setEditValue: (value: string) => void;
+  updateTitle: (id: string, title: string) => void;
+  updateStatus: (id: string, status: Status) => void;
+  onEditColumns: () => void;
+  justAddedIds: string[];
+  onShowHistory: (id: string) => void;
+  onShowDetail: (id: string) => void;
+  getCategoryColor: (name: string) => string | null;
+  mergeSourceId: string | null;
+  onMerge: (id: string) => void;
+  getSubtasks: (parentId: string) => Task[];
+  onAddSubtask: (parentId: string, title: string) => void;
+}
+
+function DroppableColumn({ id, title, color, tasks, editingId, editValue, setEditingId, setEditValue, updateTitle, updateStatus, onEditColumns, justAddedIds, onShowHistory, onShowDetail, getCategoryColor, mergeSourceId, onMerge, getSubtasks, onAddSubtask }: DroppableColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({ id });
 
   return (
-    <section ref={setNodeRef} className={clsx("flex flex-col border rounded-lg overflow-hidden min-w-0 transition-all h-full shadow-sm", bgColor, borderColor, isOver ? "brightness-95 ring-1 ring-gray-200" : "")}>
+    <section ref={setNodeRef} className={clsx("flex flex-col border rounded-lg overflow-hidden min-w-0 transition-all h-full shadow-sm", isOver ? "brightness-95 ring-1 ring-gray-200" : "")} style={{ backgroundColor: `${color}0A`, borderColor: `${color}1F` }}>
       <div className="flex items-center justify-between px-2 py-1 bg-white/30 border-b border-inherit">
-        {isEditableTitle && isEditingHeader ? (
-          <input
-            autoFocus
-            className={clsx("text-[9px] font-black tracking-tighter bg-transparent outline-none w-full", color)}
-            value={headerValue}
-            onChange={(e) => setHeaderValue(e.target.value)}
-            onBlur={() => { onTitleSave(headerValue); setIsEditingHeader(false); }}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') { onTitleSave(headerValue); setIsEditingHeader(false); }
-              if (e.key === 'Escape') { setHeaderValue(title); setIsEditingHeader(false); }
-            }}
-          />
-        ) : (
-          <h2
-            className={clsx("text-[9px] font-black tracking-tighter truncate cursor-pointer", color)}
-            onClick={() => isEditableTitle && setIsEditingHeader(true)}
-          >
-            {title}
-          </h2>
-        )}
+        <h2 className="text-[9px] font-black tracking-tighter truncate cursor-pointer" style={{ color }} onClick={onEditColumns} title="ランク列の設定">
+          {title}
+        </h2>
         <span className="text-[7px] font-mono font-bold text-gray-400">{tasks.length}</span>
       </div>
-      <SortableContext items={tasks.map((t: any) => t.id)} strategy={verticalListSortingStrategy}>
+      <SortableContext items={tasks.map(t => t.id)} strategy={verticalListSortingStrategy}>
         <div className="flex-1 overflow-y-auto p-1.5 space-y-1 scrollbar-hide min-h-[50px]">
-          {tasks.map((task: any) => (
-            <TaskItemCompact key={task.id} task={task} isHidden={task.isHiddenBySearch} isNew={justAddedIds.includes(task.id)} isEditing={editingId === task.id} editValue={editValue} onStartEdit={() => { setEditingId(task.id); setEditValue(task.title); }} onEditChange={setEditValue} onSaveEdit={() => updateTitle(task.id, editValue)} onCancelEdit={() => setEditingId(null)} onDone={() => updateStatus(task.id, '完了')} onDelete={() => updateStatus(task.id, '削除済み')} />
+          {tasks.map(task => (
+            <TaskItemCompact key={task.id} task={task} isHidden={task.isHiddenBySearch} isNew={justAddedIds.includes(task.id)} isEditing={editingId === task.id} editValue={editValue} onStartEdit={() => { setEditingId(task.id); setEditValue(task.title); }} onEditChange={setEditValue} onSaveEdit={() => updateTitle(task.id, editValue)} onCancelEdit={() => setEditingId(null)} onDone={() => updateStatus(task.id, '完了')} onDelete={() => updateStatus(task.id, '削除済み')} onHistory={() => onShowHistory(task.id)} onDetail={() => onShowDetail(task.id)} categoryColor={getCategoryColor(task.category)} isMergeSource={mergeSourceId === task.id} canMergeInto={mergeSourceId !== null && mergeSourceId !== task.id} onMerge={() => onMerge(task.id)} subtasks={getSubtasks(task.id)} onToggleSubtask={(id, done) => updateStatus(id, done ? '完了' : '未処理')} onAddSubtask={(title) => onAddSubtask(task.id, title)} />
           ))}
         </div>
       </SortableContext>
@@ -505,7 +814,7 @@ function DroppableColumn({ id, title, color, bgColor, borderColor, tasks, editin
   );
 }
 
-function DropZoneStrip({ id, icon, active, onClick, color, count, label }: any) {
+function DropZoneStrip({ id, icon, active, onClick, color, count, label }: { id: string; icon: ReactNode; active: boolean; onClick: () => void; color: string; count: number; label: string }) {
   const { setNodeRef, isOver } = useDroppable({ id });
   return (
     <div ref={setNodeRef} onClick={onClick} className={clsx("flex-1 flex flex-col items-center justify-center border border-gray-100 rounded-lg transition-all cursor-pointer relative", active ? "bg-gray-100" : "bg-white hover:bg-gray-50 shadow-sm", isOver && "border-emerald-200 bg-emerald-50 scale-105 shadow-md z-10")}>
@@ -518,24 +827,66 @@ function DropZoneStrip({ id, icon, active, onClick, color, count, label }: any)
   );
 }
 
-function SideDrawer({ id, title, items, onClose, onDelete, onUpdateStatus }: any) {
+const RETENTION_OPTIONS = [7, 30, 90];
+
+// The trash drawer also gets the bulk actions and the retention setting
+interface SideDrawerProps {
+  id: Status;
+  title: string | null;
+  items: SearchedTask[];
+  onClose: () => void;
+  // Moves to the trash, or deletes for good in the trash drawer
+  onDelete: (id: string) => void;
+  onRestore: (id: string) => void;
+  onRestoreAll?: () => void;
+  onEmpty?: () => void;
+  retentionDays?: number | null;
+  onRetentionChange?: (days: number | null) => void;
+}
+
+function SideDrawer({ id, title, items, onClose, onDelete, onRestore, onRestoreAll, onEmpty, retentionDays = null, onRetentionChange }: SideDrawerProps) {
   const { setNodeRef, isOver } = useDroppable({ id });
+  // Permanent deletes take a second click: a task id, or 'all' for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const isTrash = !!onEmpty;
+
   return (
     <div ref={setNodeRef} className={clsx("absolute top-0 right-0 left-0 bottom-14 md:bottom-0 md:left-auto md:right-8 md:w-64 bg-white border border-gray-200 shadow-2xl z-40 flex flex-col transition-all", isOver ? "ring-2 ring-emerald-100" : "")}>
       <div className="flex items-center justify-between px-3 py-2 bg-gray-50 border-b border-gray-100">
         <h2 className="text-[10px] font-black tracking-widest text-gray-500 uppercase">{title}</h2>
         <button onClick={onClose} className="text-gray-400 hover:text-gray-800 text-lg">×</button>
       </div>
+      {isTrash && (
+        <div className="px-3 py-1.5 border-b border-gray-100 flex items-center gap-1 text-[8px] font-bold">
+          <select value={retentionDays ?? ''} onChange={(e) => onRetentionChange?.(e.target.value ? Number(e.target.value) : null)} className="bg-transparent outline-none text-gray-500 mr-auto">
+            {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days}日後に自動削除</option>)}
+            <option value="">自動削除しない</option>
+          </select>
+          <button onClick={onRestoreAll} disabled={items.length === 0} className="text-emerald-500 hover:bg-emerald-50 px-1 rounded disabled:opacity-30">すべて復元</button>
+          {confirming === 'all' ? (
+            <button onClick={() => { onEmpty?.(); setConfirming(null); }} onBlur={() => setConfirming(null)} autoFocus className="bg-red-500 text-white px-1 rounded">本当に空にする</button>
+          ) : (
+            <button onClick={() => setConfirming('all')} disabled={items.length === 0} className="text-red-400 hover:bg-red-50 px-1 rounded disabled:opacity-30">空にする</button>
+          )}
+        </div>
+      )}
       <div className="flex-1 overflow-y-auto p-2 space-y-1.5 scrollbar-hide">
-        {items.map((task: any) => (
+        {items.map(task => (
           <div key={task.id} className="p-2 bg-white border border-gray-100 rounded-md group relative flex items-center justify-between gap-2 shadow-sm">
             <div className="flex flex-col min-w-0 flex-1">
               <span className="text-[6px] text-gray-400 font-bold uppercase truncate">{task.category}</span>
               <p className={clsx("text-[10px] font-medium truncate", task.status === '完了' ? "line-through text-gray-300" : "text-gray-700")}>{task.title}</p>
+              {isTrash && retentionDays !== null && <span className="text-[7px] text-gray-300">あと{daysUntilPurge(task, retentionDays)}日で自動削除</span>}
             </div>
-            <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-              <button onClick={() => onUpdateStatus(task.id, '未処理')} className="text-emerald-500 hover:bg-emerald-50 p-1 rounded transition-colors" title="未処理に戻す"><RefreshCw size={10} /></button>
-              <button onClick={() => onDelete(task.id)} className="text-red-400 hover:bg-red-50 p-1 rounded transition-colors"><Trash2 size={10} /></button>
+            <div className={clsx("flex gap-1 transition-opacity", confirming === task.id ? "opacity-100" : "opacity-0 group-hover:opacity-100")}>
+              <button onClick={() => onRestore(task.id)} className="text-emerald-500 hover:bg-emerald-50 p-1 rounded transition-colors" title="未処理に戻す"><RefreshCw size={10} /></button>
+              {!isTrash ? (
+                <button onClick={() => onDelete(task.id)} className="text-red-400 hover:bg-red-50 p-1 rounded transition-colors" title="ゴミ箱へ移動"><Trash2 size={10} /></button>
+              ) : confirming === task.id ? (
+                <button onClick={() => { onDelete(task.id); setConfirming(null); }} onBlur={() => setConfirming(null)} autoFocus className="bg-red-500 text-white text-[8px] font-bold px-1 rounded">完全に削除</button>
+              ) : (
+                <button onClick={() => setConfirming(task.id)} className="text-red-400 hover:bg-red-50 p-1 rounded transition-colors" title="完全に削除"><Trash2 size={10} /></button>
+              )}
             </div>
           </div>
         ))}
@@ -545,25 +896,314 @@ function SideDrawer({ id, title, items, onClose, onDelete, onUpdateStatus }: any
   );
 }
 
-function TaskItemCompact({ task, isEditing, editValue, onStartEdit, onEditChange, onSaveEdit, onCancelEdit, onDone, onDelete, isNew, isHidden }: any) {
+interface TaskItemCompactProps {
+  task: Task;
+  isEditing: boolean;
+  editValue: string;
+  onStartEdit: () => void;
+  onEditChange: (value: string) => void;
+  onSaveEdit: () => void;
+  onCancelEdit: () => void;
+  onDone: () => void;
+  onDelete: () => void;
+  onHistory: () => void;
+  onDetail: () => void;
+  categoryColor: string | null;
+  isMergeSource: boolean;
+  canMergeInto: boolean;
+  onMerge: () => void;
+  subtasks: Task[];
+  onToggleSubtask: (id: string, done: boolean) => void;
+  onAddSubtask: (title: string) => void;
+  isNew: boolean;
+  isHidden?: boolean;
+}
+
+function TaskItemCompact({ task, isEditing, editValue, onStartEdit, onEditChange, onSaveEdit, onCancelEdit, onDone, onDelete, onHistory, onDetail, categoryColor, isMergeSource, canMergeInto, onMerge, subtasks, onToggleSubtask, onAddSubtask, isNew, isHidden }: TaskItemCompactProps) {
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: task.id, disabled: isEditing });
+  const [showChecklist, setShowChecklist] = useState(false);
+  // Merging into this card takes a second click, like the permanent deletes in SideDrawer
+  const [confirmingMerge, setConfirmingMerge] = useState(false);
+  const progress = subtaskProgress(subtasks);
   const isCompleted = task.status === '完了';
   const isInProgress = task.status === '進行中';
   const isDev = task.priority === 'DEV';
 
   return (
-    <div ref={setNodeRef} style={{ transform: CSS.Translate.toString(transform), transition, opacity: isDragging ? 0.3 : (isHidden ? 0.1 : 1) }} className={clsx("group relative flex items-center justify-between gap-1 px-2 py-1.5 rounded-md transition-all border", isCompleted ? "bg-transparent border-transparent opacity-40 shadow-none" : "bg-white border-gray-100 hover:border-gray-200 shadow-sm hover:shadow-md", isInProgress && "border-l-emerald-400 border-l-4", isEditing && "bg-white ring-2 ring-emerald-400/20 z-10 shadow-lg", isNew && "animate-flash-highlight bg-emerald-50 border-emerald-100")}>
-      <div className="flex items-center gap-1.5 min-w-0 flex-1 h-full cursor-grab active:cursor-grabbing" {...attributes} {...listeners}>
-        <span className="text-[7px] text-gray-400 font-bold uppercase truncate max-w-[24px] select-none">{isInProgress ? '🏃' : (isDev ? '🛠️' : (task.category || '---'))}</span>
-        {isEditing ? (
-          <input autoFocus className="flex-1 bg-transparent text-gray-900 outline-none font-semibold leading-[1.1] tracking-tighter text-[10px] w-full" value={editValue} onChange={(e) => onEditChange(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') onSaveEdit(); if (e.key === 'Escape') onCancelEdit(); }} onBlur={onSaveEdit} />
-        ) : (
-          <h3 onClick={(e) => { e.stopPropagation(); onStartEdit(); }} className={clsx("line-clamp-2 overflow-hidden whitespace-normal font-semibold leading-[1.1] tracking-tighter text-[9.5px] flex-1 cursor-text", isCompleted ? "line-through text-gray-300" : "text-gray-800 hover:text-black")}>{task.title}</h3>
-        )}
+    <div ref={setNodeRef} style={{ transform: CSS.Translate.toString(transform), transition, opacity: isDragging ? 0.3 : (isHidden ? 0.1 : 1) }} className={clsx("group relative flex flex-col px-2 py-1.5 rounded-md transition-all border", isCompleted ? "bg-transparent border-transparent opacity-40 shadow-none" : "bg-white border-gray-100 hover:border-gray-200 shadow-sm hover:shadow-md", isInProgress && "border-l-emerald-400 border-l-4", isEditing && "bg-white ring-2 ring-emerald-400/20 z-10 shadow-lg", isNew && "animate-flash-highlight bg-emerald-50 border-emerald-100", isMergeSource && "ring-2 ring-indigo-300")}>
+      <div className="flex items-center justify-between gap-1">
+        <div className="flex items-center gap-1.5 min-w-0 flex-1 h-full cursor-grab active:cursor-grabbing" {...attributes} {...listeners}>
+          {(isInProgress || isDev || !task.category) && <span className="text-[7px] text-gray-400 font-bold uppercase truncate max-w-[24px] select-none">{isInProgress ? '🏃' : (isDev ? '🛠️' : '---')}</span>}
+          {task.category && <span className="text-[7px] font-bold truncate max-w-[48px] px-1 rounded-sm select-none" style={{ color: categoryColor ?? '#9CA3AF', backgroundColor: `${categoryColor ?? '#9CA3AF'}1A` }}>{task.category}</span>}
+          {isEditing ? (
+            <input autoFocus className="flex-1 bg-transparent text-gray-900 outline-none font-semibold leading-[1.1] tracking-tighter text-[10px] w-full" value={editValue} onChange={(e) => onEditChange(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') onSaveEdit(); if (e.key === 'Escape') onCancelEdit(); }} onBlur={onSaveEdit} />
+          ) : (
+            <h3 onClick={(e) => { e.stopPropagation(); onStartEdit(); }} className={clsx("line-clamp-2 overflow-hidden whitespace-normal font-semibold leading-[1.1] tracking-tighter text-[9.5px] flex-1 cursor-text", isCompleted ? "line-through text-gray-300" : "text-gray-800 hover:text-black")}>{task.title}</h3>
+          )}
+          {progress.total > 0 && !isEditing && <button onClick={(e) => { e.stopPropagation(); setShowChecklist(!showChecklist); }} className={clsx("text-[7px] font-mono font-bold whitespace-nowrap px-1 rounded-sm", progress.done === progress.total ? "bg-emerald-100 text-emerald-600" : "bg-gray-100 text-gray-500")}>{progress.done}/{progress.total}</button>}
+          {task.notes && !isEditing && <button onClick={(e) => { e.stopPropagation(); onDetail(); }} className="text-gray-300 hover:text-gray-500" title="メモあり"><FileText size={8} /></button>}
+          {task.recurrence && !isEditing && <span className="text-[7px] font-mono font-bold whitespace-nowrap px-1 rounded-sm select-none bg-sky-50 text-sky-500">🔁{formatRecurrence(task.recurrence)}</span>}
+          {task.due_at && !isEditing && <DueBadge dueAt={task.due_at} />}
+        </div>
+        <div className={clsx("hidden md:flex gap-1 transition-opacity ml-1", confirmingMerge ? "opacity-100" : "opacity-0 group-hover:opacity-100")}>
+          {!isCompleted && !isEditing && <button onClick={(e) => { e.stopPropagation(); onDone(); }} className="text-gray-300 hover:text-emerald-500 p-0.5 transition-colors"><CheckCircle2 size={10} /></button>}
+          {!isEditing && <button onClick={(e) => { e.stopPropagation(); onDetail(); }} className="text-gray-200 hover:text-gray-500 p-0.5 transition-colors" title="詳細・メモ"><FileText size={10} /></button>}
+          {!isEditing && <button onClick={(e) => { e.stopPropagation(); onHistory(); }} className="text-gray-200 hover:text-gray-500 p-0.5 transition-colors" title="履歴"><History size={10} /></button>}
+          {!isEditing && (confirmingMerge ? (
+            <button onClick={(e) => { e.stopPropagation(); onMerge(); setConfirmingMerge(false); }} onBlur={() => setConfirmingMerge(false)} autoFocus className="bg-indigo-500 text-white text-[7px] font-bold px-1 rounded whitespace-nowrap">ここに統合</button>
+          ) : (
+            <button onClick={(e) => { e.stopPropagation(); if (canMergeInto) setConfirmingMerge(true); else onMerge(); }} className={clsx("p-0.5 transition-colors", isMergeSource ? "text-indigo-500" : "text-gray-200 hover:text-indigo-400")} title={isMergeSource ? "統合先のカードを選んでください" : canMergeInto ? "このカードに統合" : "統合"}><Merge size={10} /></button>
+          ))}
+          {!isEditing && <button onClick={(e) => { e.stopPropagation(); setShowChecklist(!showChecklist); }} className="text-gray-200 hover:text-gray-500 p-0.5 transition-colors" title="チェックリスト"><ListChecks size={10} /></button>}
+          {!isEditing && <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="text-gray-200 hover:text-red-400 p-0.5 transition-colors"><Trash2 size={10} /></button>}
+        </div>
+      </div>
+      {showChecklist && <Checklist subtasks={subtasks} onToggle={onToggleSubtask} onAdd={onAddSubtask} />}
+    </div>
+  );
+}
+
+function Checklist({ subtasks, onToggle, onAdd }: { subtasks: Task[]; onToggle: (id: string, done: boolean) => void; onAdd: (title: string) => void }) {
+  const [newTitle, setNewTitle] = useState('');
+  return (
+    <ul className="mt-1 pl-4 space-y-0.5 text-[8.5px]" onPointerDown={(e) => e.stopPropagation()}>
+      {subtasks.map(s => (
+        <li key={s.id} className="flex items-center gap-1">
+          <input type="checkbox" className="w-2.5 h-2.5 accent-emerald-500" checked={s.status === '完了'} onChange={(e) => onToggle(s.id, e.target.checked)} />
+          <span className={clsx("truncate", s.status === '完了' ? "line-through text-gray-300" : "text-gray-600")}>{s.title}</span>
+        </li>
+      ))}
+      <li>
+        <input className="w-full bg-transparent outline-none border-b border-gray-100 focus:border-emerald-300 text-gray-600 placeholder:text-gray-300" placeholder="+ サブタスクを追加" value={newTitle} onChange={(e) => setNewTitle(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) { onAdd(newTitle); setNewTitle(''); } }} />
+      </li>
+    </ul>
+  );
+}
+
+function DueBadge({ dueAt }: { dueAt: string }) {
+  const level = dueLevel(dueAt);
+  return (
+    <span className={clsx("text-[7px] font-mono font-bold whitespace-nowrap px-1 rounded-sm select-none", level === 'overdue' ? "bg-red-100 text-red-600" : level === 'soon' ? "bg-amber-100 text-amber-600" : "bg-gray-100 text-gray-400")}>
+      ⏰{formatDue(dueAt)}
+    </span>
+  );
+}
+
+// A task about to be added; `analysis` is the server's signature on tasks from AI analysis
+type NewTask = Partial<Task> & { analysis?: string | null };
+
+interface DuplicateSuspect {
+  candidate: NewTask;
+  existing: Task;
+}
+
+function DuplicateModal({ suspects, onResolve, onClose }: { suspects: DuplicateSuspect[]; onResolve: (suspect: DuplicateSuspect, action: 'merge' | 'add') => void; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-sm max-h-[70vh] overflow-y-auto shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white/95 backdrop-blur-md border-b border-gray-100 px-5 py-3 flex justify-between items-center gap-2">
+          <h2 className="text-[10px] font-black tracking-widest text-amber-500 uppercase">重複の可能性</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-800 text-2xl leading-none">×</button>
+        </div>
+        <ul className="p-4 space-y-3 text-[10px] text-gray-600">
+          {suspects.map((s, i) => (
+            <li key={i} className="border border-gray-100 rounded-lg p-2 space-y-1">
+              <p className="font-bold text-gray-800">新規: {s.candidate.title}</p>
+              <p className="text-gray-400">既存の #{s.existing.ref}「{s.existing.title}」と重複の可能性</p>
+              <div className="flex gap-1 pt-1">
+                <button onClick={() => onResolve(s, 'merge')} className="flex-1 bg-emerald-500 text-white rounded py-1 font-bold hover:bg-emerald-600 transition">統合する</button>
+                <button onClick={() => onResolve(s, 'add')} className="flex-1 bg-gray-100 text-gray-600 rounded py-1 font-bold hover:bg-gray-200 transition">追加する</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+function HistoryModal({ task, onClose }: { task?: Task; onClose: () => void }) {
+  const [events, setEvents] = useState<TaskEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!task) return;
+    fetch(`/api/tasks/${task.id}/events`)
+      .then(res => res.ok ? res.json() : [])
+      .then(setEvents)
+      .catch(() => setEvents([]));
+  }, [task]);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-sm max-h-[70vh] overflow-y-auto shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white/95 backdrop-blur-md border-b border-gray-100 px-5 py-3 flex justify-between items-center gap-2">
+          <h2 className="text-[10px] font-black tracking-widest text-gray-500 uppercase truncate">履歴: {task?.title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-800 text-2xl leading-none">×</button>
+        </div>
+        <ol className="p-4 space-y-2 text-[10px] text-gray-600">
+          {events === null && <li className="text-center text-gray-300 py-6"><RefreshCw size={12} className="animate-spin inline" /></li>}
+          {events?.length === 0 && <li className="text-center text-gray-300 py-6 italic">履歴はありません</li>}
+          {events?.map(e => (
+            <li key={e.id} className="flex gap-2 items-baseline border-l-2 border-gray-100 pl-2">
+              <span className="text-[8px] font-mono text-gray-400 whitespace-nowrap">{formatEventTime(e.created_at)}</span>
+              <span className="text-[7px] font-bold bg-gray-100 text-gray-500 px-1 rounded-sm whitespace-nowrap">{sourceLabels[e.source]}</span>
+              <span className="flex-1 break-all">{describeEvent(e)}</span>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+function DetailModal({ task, onSave, onClose }: { task?: Task; onSave: (id: string, patch: Partial<Task>) => Promise<boolean>; onClose: () => void }) {
+  const [isEditing, setIsEditing] = useState(!task?.notes);
+  const [draft, setDraft] = useState(task?.notes ?? '');
+  const [saving, setSaving] = useState(false);
+  if (!task) return null;
+
+  const save = async () => {
+    setSaving(true);
+    if (await onSave(task.id, { notes: draft })) setIsEditing(false);
+    setSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-md max-h-[80vh] overflow-y-auto shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white/95 backdrop-blur-md border-b border-gray-100 px-5 py-3 flex justify-between items-center gap-2">
+          <h2 className="text-[11px] font-bold text-gray-800 truncate">#{task.ref} {task.title}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-800 text-2xl leading-none">×</button>
+        </div>
+        <div className="p-4 space-y-3 text-[10px] text-gray-600">
+          <div className="flex flex-wrap gap-1 text-[8px] font-bold">
+            <span className="bg-gray-100 text-gray-500 px-1 rounded-sm">{task.priority}</span>
+            <span className="bg-gray-100 text-gray-500 px-1 rounded-sm">{task.status}</span>
+            {task.category && <span className="bg-gray-100 text-gray-500 px-1 rounded-sm">{task.category}</span>}
+            {task.due_at && <DueBadge dueAt={task.due_at} />}
+          </div>
+          {!task.parent_id && <RecurrenceEditor task={task} onSave={onSave} />}
+          <div className="flex justify-between items-center">
+            <h3 className="text-[9px] font-black tracking-widest text-gray-400 uppercase">メモ</h3>
+            {!isEditing && <button onClick={() => { setDraft(task.notes ?? ''); setIsEditing(true); }} className="text-[9px] text-emerald-500 hover:text-emerald-600 font-bold">編集</button>}
+          </div>
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea autoFocus className="w-full h-48 border border-gray-200 rounded-md p-2 outline-none focus:border-emerald-400 font-mono text-[10px] text-gray-800" placeholder="会議URL、住所、依頼内容など（Markdown可・URLは自動でリンクになります）" value={draft} onChange={(e) => setDraft(e.target.value)} />
+              <div className="flex gap-1 justify-end">
+                {task.notes && <button onClick={() => setIsEditing(false)} className="bg-gray-100 text-gray-600 rounded px-3 py-1 font-bold hover:bg-gray-200 transition">キャンセル</button>}
+                <button onClick={save} disabled={saving} className="bg-emerald-500 text-white rounded px-3 py-1 font-bold hover:bg-emerald-600 transition disabled:opacity-50">保存</button>
+              </div>
+            </div>
+          ) : (
+            <NotesView notes={task.notes ?? ''} />
+          )}
+        </div>
       </div>
-      <div className="hidden md:flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity ml-1">
-        {!isCompleted && !isEditing && <button onClick={(e) => { e.stopPropagation(); onDone(); }} className="text-gray-300 hover:text-emerald-500 p-0.5 transition-colors"><CheckCircle2 size={10} /></button>}
-        {!isEditing && <button onClick={(e) => { e.stopPropagation(); onDelete(); }} className="text-gray-200 hover:text-red-400 p-0.5 transition-colors"><Trash2 size={10} /></button>}
+    </div>
+  );
+}
+
+function RecurrenceEditor({ task, onSave }: { task: Task; onSave: (id: string, patch: Partial<Task>) => Promise<boolean> }) {
+  const [draft, setDraft] = useState(task.recurrence ? formatRecurrence(task.recurrence) : '');
+  const [invalid, setInvalid] = useState(false);
+
+  const save = async () => {
+    if (draft.trim() === (task.recurrence ? formatRecurrence(task.recurrence) : '')) return;
+    const parsed = draft.trim() ? parseRecurrence(draft.trim()) : null;
+    setInvalid(!!draft.trim() && !parsed);
+    if (draft.trim() && !parsed) return;
+    await onSave(task.id, { recurrence: parsed?.rule ?? null });
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-[9px]">
+      <Repeat size={10} className="text-gray-400 shrink-0" />
+      <input className={clsx("flex-1 bg-transparent outline-none border-b text-gray-700 placeholder:text-gray-300", invalid ? "border-red-300" : "border-gray-100 focus:border-emerald-300")} placeholder="繰り返し（例: 毎週月曜 / 毎月末 / 毎月最終営業日）" value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) save(); }} onBlur={save} />
+      {invalid && <span className="text-red-400">認識できません</span>}
+    </div>
+  );
+}
+
+function NotesView({ notes }: { notes: string }) {
+  const inline = (parts: NoteInline[]) => parts.map((part, i) => {
+    switch (part.type) {
+      case 'bold': return <strong key={i}>{part.text}</strong>;
+      case 'code': return <code key={i} className="bg-gray-100 px-0.5 rounded-sm font-mono">{part.text}</code>;
+      case 'link': return <a key={i} href={part.href} target="_blank" rel="noopener noreferrer" className="text-blue-500 underline break-all">{part.text}</a>;
+      default: return <span key={i}>{part.text}</span>;
+    }
+  });
+
+  return (
+    <div className="space-y-2 leading-relaxed break-words">
+      {parseNotes(notes).map((block, i) => {
+        if (block.type === 'heading') return <h4 key={i} className="font-bold text-gray-800">{inline(block.content)}</h4>;
+        if (block.type === 'list') return <ul key={i} className="list-disc pl-4 space-y-0.5">{block.items.map((item, j) => <li key={j}>{inline(item)}</li>)}</ul>;
+        return <p key={i}>{block.lines.map((line, j) => <span key={j}>{j > 0 && <br />}{inline(line)}</span>)}</p>;
+      })}
+    </div>
+  );
+}
+
+// Aliases are edited as one comma-separated field
+type RankDraft = Omit<RankColumn, 'aliases'> & { aliases: string };
+
+function RankSettingsModal({ columns, onSave, onClose }: { columns: RankColumn[]; onSave: (columns: RankColumn[]) => Promise<string | null>; onClose: () => void }) {
+  const toDraft = (items: RankColumn[]): RankDraft[] => items.map(c => ({ ...c, aliases: c.aliases.join(', ') }));
+  const [drafts, setDrafts] = useState<RankDraft[]>(toDraft(columns));
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const update = (index: number, patch: Partial<RankDraft>) => setDrafts(drafts.map((d, i) => i === index ? { ...d, ...patch } : d));
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= drafts.length) return;
+    const next = [...drafts];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDrafts(next);
+  };
+
+  const save = async () => {
+    setSaving(true);
+    const error = await onSave(drafts.map(d => ({ ...d, aliases: d.aliases.split(/[,、，]/).map(a => a.trim()).filter(Boolean) })));
+    setSaving(false);
+    if (error) setSaveError(error);
+    else onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[85vh] overflow-y-auto shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white/95 backdrop-blur-md border-b border-gray-100 px-5 py-3 flex justify-between items-center">
+          <h2 className="text-[11px] font-bold text-gray-800">ランク列の設定</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-800 text-2xl leading-none">×</button>
+        </div>
+        <div className="p-4 space-y-2 text-[10px] text-gray-600">
+          <p className="text-[9px] text-gray-400">名前と別名は LINE でも使えます（例:「3 {drafts[0]?.name}」「一覧 {drafts[drafts.length - 1]?.name}」）。AI は「AI」にチェックのある列にだけ振り分けます。</p>
+          {drafts.map((draft, i) => (
+            <div key={draft.key} className="flex items-center gap-1 border border-gray-100 rounded-md px-2 py-1">
+              <div className="flex flex-col text-[8px] text-gray-400 leading-none">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="hover:text-gray-800 disabled:opacity-30">▲</button>
+                <button onClick={() => move(i, 1)} disabled={i === drafts.length - 1} className="hover:text-gray-800 disabled:opacity-30">▼</button>
+              </div>
+              <span className="w-7 text-[8px] font-mono font-bold text-gray-400">{draft.key}</span>
+              <input className="w-7 text-center bg-transparent outline-none border-b border-gray-100 focus:border-emerald-300" value={draft.emoji} onChange={(e) => update(i, { emoji: e.target.value })} title="絵文字" />
+              <input className="flex-1 min-w-0 bg-transparent outline-none border-b border-gray-100 focus:border-emerald-300 font-bold" style={{ color: draft.color }} value={draft.name} onChange={(e) => update(i, { name: e.target.value })} title="名前" />
+              <input type="color" className="w-5 h-5 bg-transparent cursor-pointer" value={draft.color} onChange={(e) => update(i, { color: e.target.value.toUpperCase() })} title="色" />
+              <input className="flex-1 min-w-0 bg-transparent outline-none border-b border-gray-100 focus:border-emerald-300 text-[9px]" placeholder="別名（カンマ区切り）" value={draft.aliases} onChange={(e) => update(i, { aliases: e.target.value })} />
+              <label className="flex items-center gap-0.5 text-[8px] font-bold text-gray-400 whitespace-nowrap">
+                <input type="checkbox" checked={draft.ai_assignable} onChange={(e) => update(i, { ai_assignable: e.target.checked })} />AI
+              </label>
+            </div>
+          ))}
+          {saveError && <p className="text-red-500 font-bold">{saveError}</p>}
+          <div className="flex gap-1 justify-end pt-1">
+            <button onClick={() => setDrafts(toDraft(DEFAULT_RANK_COLUMNS))} className="mr-auto text-gray-400 hover:text-gray-700 font-bold">初期設定に戻す</button>
+            <button onClick={onClose} className="bg-gray-100 text-gray-600 rounded px-3 py-1 font-bold hover:bg-gray-200 transition">キャンセル</button>
+            <button onClick={save} disabled={saving} className="bg-emerald-500 text-white rounded px-3 py-1 font-bold hover:bg-emerald-600 transition disabled:opacity-50">保存</button>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -592,12 +1232,12 @@ function HelpModal({ onClose }: { onClose: () => void }) {
               <div>
                 <p className="text-gray-800 font-bold">2. タイトルの修正</p>
                 <p className="text-gray-400 italic mb-1">例：修正は「1 を 〇〇会場に変更 に修正」</p>
-                <p>番号を指定して書き換えられます。</p>
+                <p>番号を指定して書き換えられます。「1 メモ 〇〇」でメモに追記できます。</p>
               </div>
               <div>
                 <p className="text-gray-800 font-bold">3. ランク（優先度）変更</p>
                 <p className="text-gray-400 italic mb-1">例：優先度は「2 を ランクAに修正」</p>
-                <p>S / A / B / C / 開発 / メモ などを指定できます。</p>
+                <p>S / A / B / C のほか、列の名前や別名（開発・メモなど）で指定できます。</p>
               </div>
               <div>
                 <p className="text-gray-800 font-bold">4. 完了・削除</p>
@@ -622,6 +1262,14 @@ function HelpModal({ onClose }: { onClose: () => void }) {
                 <p className="text-gray-800 font-bold text-[10px]">2. 状態の変更</p>
                 <p>下部のアイコン（完了・保留など）へドロップすると状態が変わります。</p>
               </div>
+              <div>
+                <p className="text-gray-800 font-bold text-[10px]">3. ランク列の設定</p>
+                <p>列の見出しをクリックすると、名前・色・絵文字・並び順・AIの振り分け先・LINEで使う別名を変更できます。</p>
+              </div>
+              <div>
+                <p className="text-gray-800 font-bold text-[10px]">4. ゴミ箱</p>
+                <p>削除したタスクは設定した日数（既定30日）の後に自動で完全削除されます。ゴミ箱から「すべて復元」「空にする」もできます。</p>
+              </div>
             </div>
           </section>
 
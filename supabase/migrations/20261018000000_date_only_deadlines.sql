@@ -0,0 +1,6 @@
+-- Date-only deadlines ("明日までに") are due at the end of the day, 23:59 JST.
+-- They used to be stored at 00:00 JST, which escalated them at once and showed them as overdue all day.
+update tasks
+set due_at = due_at + interval '23 hours 59 minutes'
+where due_at is not null
+  and (due_at at time zone 'Asia/Tokyo')::time = '00:00';
@@ -0,0 +1,4 @@
+-- 戻す was a command word stored as a status, and 開発中 a status that is no longer offered.
+-- Rows that still hold them have no entry in STATUS_DEFINITIONS (utils/statuses.ts).
+update tasks set status = '未処理' where status = '戻す';
+update tasks set status = '進行中' where status = '開発中';
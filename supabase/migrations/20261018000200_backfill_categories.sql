@@ -0,0 +1,36 @@
+-- Registers the category names of tasks from before the categories table, which listCategories
+-- (utils/categories.ts) used to insert on every read. Names are matched the way categoryKey in
+-- utils/categoryNames.ts does it, and colors follow categoryColor.
+create function pg_temp.category_key(name text) returns text language sql immutable as $$
+    select regexp_replace(
+        regexp_replace(lower(normalize(name, NFKC)), '[\s【】「」\[\]()（）]', '', 'g'),
+        '(pj|プロジェクト|project)$', ''
+    )
+$$;
+
+with used as (
+    select distinct on (user_id, pg_temp.category_key(category)) user_id, category as name, created_at
+    from tasks
+    where pg_temp.category_key(category) <> ''
+    order by user_id, pg_temp.category_key(category), created_at
+),
+missing as (
+    select used.*
+    from used
+    where not exists (
+        select 1 from categories c
+        where c.user_id = used.user_id and pg_temp.category_key(c.name) = pg_temp.category_key(used.name)
+    )
+),
+numbered as (
+    select
+        missing.user_id,
+        missing.name,
+        (select count(*) from categories c where c.user_id = missing.user_id)
+            + row_number() over (partition by missing.user_id order by missing.created_at) - 1 as position
+    from missing
+)
+insert into categories (user_id, name, color)
+select user_id, name, (array['#64748B', '#0EA5E9', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6'])[(position % 8)::int + 1]
+from numbered
+on conflict (user_id, name) do nothing;
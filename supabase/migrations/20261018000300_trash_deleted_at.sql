@@ -0,0 +1,3 @@
+-- Tasks trashed before deleted_at existed have it null, so purgeTrash (utils/tasks.ts) never matched them
+-- while the trash drawer already counted their days from the last status change (utils/trash.ts).
+update tasks set deleted_at = coalesce(status_changed_at, created_at) where status = '削除済み' and deleted_at is null;
@@ -0,0 +1,4 @@
+-- Dashboards join the private channel tasks:<LINE user ID> (utils/taskChannel.ts), where the server
+-- broadcasts task deletions. Only the user the realtime token was signed for may join theirs.
+create policy "own task channel" on realtime.messages for select to authenticated
+using ((select realtime.topic()) = 'tasks:' || (auth.jwt() ->> 'sub'));
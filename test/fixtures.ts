@@ -0,0 +1,10 @@
+import { Task } from "@/types";
+
+// Shared test data. Every field has a value, so tests only spell out what they are about.
+
+/** An open C-rank task; equal fields give equal tasks. */
+export const task = (fields: Partial<Task> = {}): Task => ({
+    id: 'task', user_id: 'u', ref: 1, parent_id: null, title: 'タスク', category: '', notes: null,
+    priority: 'C', ai_priority: null, status: '未処理', sort_key: null, due_at: null, recurrence: null,
+    due_reminded_at: null, status_changed_at: null, deleted_at: null, created_at: '2026-01-01T00:00:00Z', ...fields,
+});
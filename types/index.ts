@@ -1,12 +1,104 @@
-export type Priority = 'S' | 'A' | 'B' | 'C' | 'DEV' | 'IDEA';
-export type Status = '未処理' | '進行中' | '完了' | '保留' | '静観' | '戻す' | '削除済み';
+export const PRIORITIES = ['S', 'A', 'B', 'C', 'DEV', 'IDEA'] as const;
+// Meaning, display and LINE words of each status: utils/statuses.ts
+export const STATUSES = ['未処理', '進行中', '完了', '保留', '静観', '削除済み'] as const;
+
+export type Priority = typeof PRIORITIES[number];
+export type Status = typeof STATUSES[number];
+
+// Schedule of a recurring task (see utils/recurrence.ts). Weekdays are 0 (Sunday) to 6.
+export type Recurrence =
+    | { type: 'daily' }
+    | { type: 'weekdays' }
+    | { type: 'weekly'; days: number[] }
+    | { type: 'monthly'; day: number }
+    | { type: 'monthly_last_business_day' };
 
 export interface Task {
     id: string;
     user_id: string;
+    // Stable per-user handle shown as "#12" in LINE
+    ref: number | null;
+    // Set on checklist items; they are listed under their parent instead of as cards
+    parent_id: string | null;
     title: string;
     category: string;
+    // Markdown (see utils/notes.ts)
+    notes: string | null;
     priority: Priority;
+    // The rank the AI originally picked, for tasks it created (see utils/priorityCorrections.ts)
+    ai_priority: Priority | null;
     status: Status;
+    sort_key: string | null;
+    due_at: string | null;
+    // Completing the task creates the next occurrence, which takes over the rule
+    recurrence: Recurrence | null;
+    due_reminded_at: string | null;
+    status_changed_at: string | null;
+    // When the task went to the trash; it is purged trash_retention_days later
+    deleted_at: string | null;
+    created_at: string;
+}
+
+// A user's project or area; tasks refer to it by name in `category` (see utils/categories.ts)
+export interface Category {
+    id: string;
+    user_id: string;
+    name: string;
+    // "#rrggbb"
+    color: string;
+    created_at: string;
+}
+
+// How one rank is shown and addressed for a user (see utils/rankColumns.ts)
+export interface RankColumn {
+    key: Priority;
+    name: string;
+    // "#rrggbb"
+    color: string;
+    emoji: string;
+    // Whether task extraction may put new tasks in this rank
+    ai_assignable: boolean;
+    // Extra words for the rank in LINE commands, e.g. "開発" for DEV
+    aliases: string[];
+}
+
+export interface UserSettings {
+    user_id: string;
+    // Only used until the user saves rank_columns
+    dev_rank_name: string;
+    idea_rank_name: string;
+    // In display order; null means the defaults
+    rank_columns: RankColumn[] | null;
+    reminders_enabled: boolean;
+    digest_hour: number;
+    quiet_start: number | null;
+    quiet_end: number | null;
+    stale_days: number;
+    // Days a task stays in the trash before it is deleted for good; null keeps it until emptied
+    trash_retention_days: number | null;
+    // Task IDs in the order of the last LINE list the user was sent
+    last_seen_list: string[] | null;
+}
+
+export type TaskEventType = 'created' | 'title' | 'priority' | 'status' | 'due_at' | 'notes' | 'deleted';
+export type TaskEventSource = 'LINE' | 'dashboard' | 'AI' | 'cron';
+
+export interface TaskEvent {
+    id: string;
+    task_id: string;
+    user_id: string;
+    type: TaskEventType;
+    from_value: string | null;
+    to_value: string | null;
+    source: TaskEventSource;
     created_at: string;
 }
+
+export interface AiAccuracy {
+    user_id: string;
+    // The rank the AI picked
+    priority: Priority;
+    total: number;
+    // Tasks the user left at (or moved back to) that rank
+    correct: number;
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Category } from "@/types";
+import { deleteCategory, updateCategory } from "@/utils/categories";
+
+const db = vi.hoisted(() => ({
+    categories: [] as Partial<Category>[],
+    tasks: [] as { id: string; category: string }[],
+    taskUpdates: [] as { patch: unknown; ids: string[] }[],
+}));
+
+vi.mock("@/utils/supabaseServer", () => ({
+    supabaseAdmin: {
+        // Every builder call returns the builder; awaiting it gives the table's rows, and `in` records a task update
+        from(table: string) {
+            let patch: unknown = null;
+            const query: Record<string, unknown> = {};
+            for (const method of ['select', 'eq', 'neq', 'order', 'delete']) query[method] = () => query;
+            query.update = (value: unknown) => {
+                patch = value;
+                return query;
+            };
+            query.in = (_column: string, ids: string[]) => {
+                db.taskUpdates.push({ patch, ids });
+                return query;
+            };
+            query.maybeSingle = async () => ({ data: { ...db.categories[0], ...(patch as object) }, error: null });
+            query.then = (resolve: (result: unknown) => void) => resolve({ data: table === 'tasks' ? db.tasks : db.categories, error: null });
+            return query;
+        },
+    },
+}));
+
+describe("category changes on tasks", () => {
+    beforeEach(() => {
+        db.categories = [{ id: 'c', user_id: 'u', name: 'A社PJ', color: '#64748B' }];
+        db.tasks = [{ id: '1', category: 'A社PJ' }, { id: '2', category: 'ａ社 pj' }, { id: '3', category: 'B社' }];
+        db.taskUpdates = [];
+    });
+
+    it("renames tasks that spell the name differently", async () => {
+        await updateCategory('u', 'c', { name: 'A社' });
+        expect(db.taskUpdates).toEqual([{ patch: { category: 'A社' }, ids: ['1', '2'] }]);
+    });
+
+    it("clears the category on every spelling when it is deleted", async () => {
+        expect(await deleteCategory('u', 'c')).toBe(true);
+        expect(db.taskUpdates).toEqual([{ patch: { category: '' }, ids: ['1', '2'] }]);
+    });
+
+    it("leaves tasks alone when only the color changes", async () => {
+        await updateCategory('u', 'c', { color: '#0EA5E9' });
+        expect(db.taskUpdates).toEqual([]);
+    });
+});
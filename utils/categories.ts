@@ -0,0 +1,166 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { categoryColor, categoryKey, isCategoryColor, matchCategory } from "@/utils/categoryNames";
+import { Category, Task } from "@/types";
+
+// Per-user categories (projects) in `categories`, unique by (user_id, name).
+// Tasks keep the category name in `tasks.category`; new names are matched to existing
+// categories first (see utils/categoryNames.ts), so "A社 PJ" and "A社PJ" stay one project.
+
+export class CategoryValidationError extends Error {}
+
+const MAX_NAME_LENGTH = 50;
+
+function validateName(raw: unknown): string {
+    if (typeof raw !== 'string' || !raw.trim()) throw new CategoryValidationError("name must be a non-empty string");
+    if (raw.trim().length > MAX_NAME_LENGTH) throw new CategoryValidationError(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    return raw.trim();
+}
+
+async function fetchCategories(userId: string): Promise<Category[]> {
+    const { data, error } = await supabaseAdmin
+        .from('categories')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as Category[];
+}
+
+async function insertCategories(userId: string, existing: Category[], names: string[]): Promise<Category[]> {
+    if (names.length === 0) return [];
+    const rows = names.map((name, i) => ({
+        user_id: userId,
+        name,
+        color: categoryColor(existing.length + i),
+    }));
+    // A concurrent request may have created the same name; the unique key makes that a no-op
+    const { data, error } = await supabaseAdmin
+        .from('categories')
+        .upsert(rows, { onConflict: 'user_id,name', ignoreDuplicates: true })
+        .select();
+
+    if (error) throw error;
+    return data as Category[];
+}
+
+/**
+ * The user's categories, oldest first. Every task category has one: writes go through resolveCategories,
+ * and names from before categories existed were registered by supabase/migrations.
+ */
+export async function listCategories(userId: string): Promise<Category[]> {
+    return fetchCategories(userId);
+}
+
+/**
+ * Maps each raw category name to the name of the matching existing category,
+ * creating categories for names that match none. Empty names stay empty.
+ */
+export async function resolveCategories(userId: string, names: string[]): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    const wanted = names.map(n => n.trim()).filter(n => n);
+    if (wanted.length === 0) return resolved;
+
+    const categories = await fetchCategories(userId);
+    const missing: string[] = [];
+    for (const name of wanted) {
+        const match = matchCategory(name, categories) ?? matchCategory(name, missing.map(m => ({ name: m })));
+        if (match) resolved.set(name, match.name);
+        else {
+            missing.push(name);
+            resolved.set(name, name);
+        }
+    }
+    await insertCategories(userId, categories, missing);
+    return resolved;
+}
+
+export async function createCategory(userId: string, raw: unknown): Promise<Category> {
+    const input = (raw ?? {}) as Record<string, unknown>;
+    const name = validateName(input.name);
+    if (input.color !== undefined && !isCategoryColor(input.color)) throw new CategoryValidationError(`Invalid color: ${input.color}`);
+
+    const categories = await fetchCategories(userId);
+    const existing = matchCategory(name, categories);
+    if (existing) throw new CategoryValidationError(`Category already exists: ${existing.name}`);
+
+    const { data, error } = await supabaseAdmin
+        .from('categories')
+        .insert([{ user_id: userId, name, color: input.color ?? categoryColor(categories.length) }])
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data as Category;
+}
+
+/**
+ * Renames or recolors a category. A rename also renames it on the user's tasks.
+ * Returns null if the category does not exist or belongs to someone else.
+ */
+export async function updateCategory(userId: string, id: string, raw: unknown): Promise<Category | null> {
+    const input = (raw ?? {}) as Record<string, unknown>;
+    const patch: Partial<Pick<Category, 'name' | 'color'>> = {};
+    if (input.name !== undefined) patch.name = validateName(input.name);
+    if (input.color !== undefined) {
+        if (!isCategoryColor(input.color)) throw new CategoryValidationError(`Invalid color: ${input.color}`);
+        patch.color = input.color;
+    }
+
+    const categories = await fetchCategories(userId);
+    const before = categories.find(c => c.id === id);
+    if (!before) return null;
+    const clash = patch.name !== undefined && matchCategory(patch.name, categories.filter(c => c.id !== id));
+    if (clash) throw new CategoryValidationError(`Category already exists: ${clash.name}`);
+
+    const { data, error } = await supabaseAdmin
+        .from('categories')
+        .update(patch)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+    if (error) throw error;
+    if (data && patch.name && patch.name !== before.name) await renameOnTasks(userId, before.name, patch.name);
+    return data as Category | null;
+}
+
+/** Deletes a category; its tasks keep existing without one. Returns false if nothing was deleted. */
+export async function deleteCategory(userId: string, id: string): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('categories')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select();
+
+    if (error) throw error;
+    const [deleted] = data as Category[];
+    if (deleted) await renameOnTasks(userId, deleted.name, '');
+    return !!deleted;
+}
+
+// Category names are not part of the activity log, so this bypasses utils/tasks.ts.
+// Tasks written before their name was matched may spell it differently ("A社 PJ" for "A社PJ"), so they go by categoryKey.
+async function renameOnTasks(userId: string, from: string, to: string) {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('id, category')
+        .eq('user_id', userId)
+        .neq('category', '');
+
+    if (error) throw error;
+    const ids = (data as Pick<Task, 'id' | 'category'>[])
+        .filter(task => categoryKey(task.category) === categoryKey(from))
+        .map(task => task.id);
+    if (ids.length === 0) return;
+
+    const { error: updateError } = await supabaseAdmin
+        .from('tasks')
+        .update({ category: to })
+        .eq('user_id', userId)
+        .in('id', ids);
+
+    if (updateError) throw updateError;
+}
@@ -0,0 +1,27 @@
+import { Category } from "@/types";
+
+// Matching free-text categories (from the AI, LINE or the dashboard) to a user's category list.
+// No server dependencies, so the dashboard filter and LINE's 一覧 〇〇PJ share the same rules.
+
+export const CATEGORY_COLORS = ['#64748B', '#0EA5E9', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6'];
+
+export const isCategoryColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+/** Full-width to half-width, lower case, without spaces, brackets and a trailing PJ / プロジェクト. */
+export function categoryKey(name: string) {
+    return name
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[\s【】「」\[\]()（）]/g, '')
+        .replace(/(?:pj|プロジェクト|project)$/, '');
+}
+
+/** The existing category `name` refers to ("a社 pj" → "A社PJ"), or undefined if it is a new one. */
+export function matchCategory<T extends Pick<Category, 'name'>>(name: string, categories: T[]): T | undefined {
+    const key = categoryKey(name);
+    if (!key) return undefined;
+    return categories.find(c => categoryKey(c.name) === key);
+}
+
+/** Default color of the user's `index`-th category, cycling through the palette. */
+export const categoryColor = (index: number) => CATEGORY_COLORS[index % CATEGORY_COLORS.length];
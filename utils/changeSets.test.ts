@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Recurrence, Task } from "@/types";
+import { recordChangeSet, undoLastChangeSet, updated } from "@/utils/changeSets";
+import { task } from "@/test/fixtures";
+
+const tasks = vi.hoisted(() => ({ updateTask: vi.fn(), deleteTask: vi.fn() }));
+const stored = vi.hoisted(() => ({ changeSet: null as unknown }));
+
+vi.mock("@/utils/tasks", () => tasks);
+vi.mock("@/utils/supabaseServer", () => {
+    // Every query builder call returns the builder; the terminal calls resolve to the stored change set
+    const builder: Record<string, unknown> = {};
+    for (const method of ['from', 'select', 'update', 'eq', 'is', 'order', 'limit']) builder[method] = () => builder;
+    builder.maybeSingle = async () => ({ data: stored.changeSet, error: null });
+    builder.insert = async (rows: { changes: unknown }[]) => {
+        stored.changeSet = { id: 'set', ...rows[0] };
+        return { error: null };
+    };
+    return { supabaseAdmin: builder };
+});
+
+const rule: Recurrence = { type: 'weekly', days: [1] };
+const weekly = (fields: Partial<Task> = {}) => task({ id: 'weekly', title: '週報', priority: 'B', recurrence: rule, ...fields });
+
+describe("undo of a recurring completion", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        tasks.updateTask.mockImplementation(async (_user: string, id: string, patch: Partial<Task>) => weekly({ id, ...patch }));
+        tasks.deleteTask.mockResolvedValue(true);
+    });
+
+    it("gives the rule back and deletes the next occurrence", async () => {
+        const before = weekly();
+        const next = weekly({ id: 'next' });
+        await recordChangeSet('u', updated(before, ['status'], { task: weekly({ status: '完了', recurrence: null }), next }));
+
+        await undoLastChangeSet('u');
+
+        expect(tasks.deleteTask).toHaveBeenCalledWith('u', 'next', 'LINE');
+        expect(tasks.updateTask).toHaveBeenCalledWith('u', 'weekly', { status: '未処理', recurrence: rule }, 'LINE', { revert: true });
+        expect(tasks.deleteTask.mock.invocationCallOrder[0]).toBeLessThan(tasks.updateTask.mock.invocationCallOrder[0]);
+    });
+
+    it("records only the status when nothing was created", () => {
+        expect(updated(weekly(), ['status'], { task: weekly({ status: '進行中' }), next: null }))
+            .toEqual([{ task_id: 'weekly', title: '週報', before: { status: '未処理' } }]);
+    });
+});
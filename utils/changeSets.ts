@@ -0,0 +1,91 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { deleteTask, updateTask, TaskPatch, TaskUpdate } from "@/utils/tasks";
+import { Task } from "@/types";
+
+// Undo history for LINE commands. Every message that changes tasks is stored as one
+// change set in `change_sets`; 取り消し reverts the newest change set that is not undone yet.
+
+export interface TaskChange {
+    task_id: string;
+    title: string;
+    // Field values before the change, or null if the command created the task
+    before: TaskPatch | null;
+}
+
+interface ChangeSet {
+    id: string;
+    user_id: string;
+    changes: TaskChange[];
+    created_at: string;
+    undone_at: string | null;
+}
+
+/** Snapshot of the fields a command is about to overwrite. */
+export function snapshot(task: Task, fields: (keyof TaskPatch)[]): TaskChange {
+    const before: TaskPatch = {};
+    for (const field of fields) {
+        const value = task[field];
+        // Legacy rows have no sort_key; leaving it out keeps the restored patch valid
+        if (value !== null || field !== 'sort_key') Object.assign(before, { [field]: value });
+    }
+    return { task_id: task.id, title: task.title, before };
+}
+
+export const created = (task: Task): TaskChange => ({ task_id: task.id, title: task.title, before: null });
+
+/**
+ * The changes to record for an update of `fields`. Completing a recurring task moves its rule
+ * to the next occurrence it creates, so undo gets the rule back and deletes that occurrence.
+ */
+export function updated(task: Task, fields: (keyof TaskPatch)[], update: TaskUpdate | null): TaskChange[] {
+    if (!update?.next) return [snapshot(task, fields)];
+    return [snapshot(task, [...fields, 'recurrence']), created(update.next)];
+}
+
+export async function recordChangeSet(userId: string, changes: TaskChange[]) {
+    if (changes.length === 0) return;
+    const { error } = await supabaseAdmin.from('change_sets').insert([{ user_id: userId, changes }]);
+    if (error) console.error("Change set record error:", error);
+}
+
+/** Reverts the newest change set. Returns a line per restored task, or null if there is nothing to undo. */
+export async function undoLastChangeSet(userId: string): Promise<string[] | null> {
+    const { data, error } = await supabaseAdmin
+        .from('change_sets')
+        .select('*')
+        .eq('user_id', userId)
+        .is('undone_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const changeSet = data as ChangeSet;
+    const results: string[] = [];
+
+    // Undo in reverse so several edits to the same task end at the oldest value
+    for (const change of [...changeSet.changes].reverse()) {
+        if (change.before === null) {
+            if (await deleteTask(userId, change.task_id, 'LINE')) results.push(`🗑️追加を取り消し: 「${change.title}」`);
+            continue;
+        }
+        const restored = await updateTask(userId, change.task_id, change.before, 'LINE', { revert: true });
+        if (restored) results.push(`↩️復元: 「${restored.title}」${describe(change.before)}`);
+    }
+
+    await supabaseAdmin
+        .from('change_sets')
+        .update({ undone_at: new Date().toISOString() })
+        .eq('id', changeSet.id);
+
+    return results.reverse();
+}
+
+function describe(before: TaskPatch) {
+    const parts: string[] = [];
+    if (before.priority) parts.push(before.priority);
+    if (before.status) parts.push(before.status);
+    return parts.length > 0 ? `[${parts.join('・')}]` : '';
+}
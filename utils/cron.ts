@@ -0,0 +1,7 @@
+import { NextRequest } from "next/server";
+
+// Vercel Cron sends `Authorization: Bearer $CRON_SECRET` (schedules are in vercel.json)
+export function isCronRequest(req: NextRequest) {
+    const cronSecret = process.env.CRON_SECRET;
+    return !!cronSecret && req.headers.get("authorization") === `Bearer ${cronSecret}`;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { dueLevel, endOfDay, escalationTarget, formatDue, isDateOnly } from "@/utils/dueDate";
+
+describe("date-only deadlines", () => {
+    it("are due at the end of the JST day", () => {
+        expect(endOfDay("2026-03-15")).toBe("2026-03-15T14:59:00.000Z");
+        // 2026-03-15 08:00 JST is still the 15th in Japan
+        expect(endOfDay("2026-03-14T23:00:00Z")).toBe("2026-03-15T14:59:00.000Z");
+    });
+
+    it("are shown without a time, including the 00:00 ones stored before", () => {
+        expect(formatDue(endOfDay("2026-03-15"))).toBe("3/15");
+        expect(formatDue("2026-03-14T15:00:00Z")).toBe("3/15");
+        expect(formatDue("2026-03-15T08:00:00Z")).toBe("3/15 17:00");
+        expect(isDateOnly("2026-03-15T08:00:00Z")).toBe(false);
+    });
+
+    it("are not overdue on the day itself", () => {
+        // 2026-03-15 10:00 JST
+        const now = new Date("2026-03-15T01:00:00Z");
+        expect(dueLevel(endOfDay("2026-03-15"), now)).toBe('soon');
+        expect(dueLevel(endOfDay("2026-03-14"), now)).toBe('overdue');
+    });
+
+    it("are not escalated to S as soon as they are given for tomorrow", () => {
+        // "明日までに" said at 2026-03-15 09:00 JST: more than 24 hours left
+        const now = new Date("2026-03-15T00:00:00Z");
+        expect(escalationTarget({ priority: 'C', due_at: endOfDay("2026-03-16") }, now)).toBe('A');
+    });
+});
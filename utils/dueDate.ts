@@ -0,0 +1,78 @@
+import { Task, Priority } from "@/types";
+import { priorityOrder } from "@/utils/taskOrder";
+
+// Due dates are stored as ISO 8601 timestamps and always displayed in JST,
+// both on the dashboard and in LINE, regardless of where the code runs.
+
+const TIME_ZONE = 'Asia/Tokyo';
+const HOUR = 60 * 60 * 1000;
+
+// "2026-03-15"
+const jstDate = (date: Date) => new Intl.DateTimeFormat('sv-SE', { timeZone: TIME_ZONE }).format(date);
+
+// Deadline windows for automatic escalation (see /api/cron/escalate)
+export const ESCALATE_TO_S_WITHIN_MS = 24 * HOUR;
+export const ESCALATE_TO_A_WITHIN_MS = 72 * HOUR;
+
+export const isDueAt = (value: unknown): value is string => typeof value === 'string' && !isNaN(Date.parse(value));
+
+/** "2026-01-22（木）" in JST, for telling the AI what "today" is. */
+export function todayLabel(now = new Date()) {
+    const date = jstDate(now);
+    const weekday = new Intl.DateTimeFormat('ja-JP', { timeZone: TIME_ZONE, weekday: 'short' }).format(now);
+    return `${date}（${weekday}）`;
+}
+
+/** Current hour of day (0-23) in JST. */
+export function hourInJst(now = new Date()) {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone: TIME_ZONE, hour: 'numeric', hourCycle: 'h23' }).format(now));
+}
+
+// A deadline without a time of day ("明日まで", "3/15") is due at the end of that day in JST.
+// Older ones were stored at 00:00, so that still reads as date only.
+const END_OF_DAY = '23:59';
+const DATE_ONLY_TIMES = [END_OF_DAY, '00:00'];
+
+function jstParts(dueAt: string) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: TIME_ZONE, month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(new Date(dueAt));
+    const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+    return { month: get('month'), day: get('day'), time: `${get('hour')}:${get('minute')}` };
+}
+
+/** Date-only deadline for a calendar day ("2026-03-15"), or for the JST day a timestamp falls on. */
+export function endOfDay(day: string) {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(day) ? day : jstDate(new Date(day));
+    return new Date(`${date}T${END_OF_DAY}:00+09:00`).toISOString();
+}
+
+export const isDateOnly = (dueAt: string) => DATE_ONLY_TIMES.includes(jstParts(dueAt).time);
+
+/** "3/15 17:00", or "3/15" for a date-only deadline. */
+export function formatDue(dueAt: string) {
+    const { month, day, time } = jstParts(dueAt);
+    return DATE_ONLY_TIMES.includes(time) ? `${month}/${day}` : `${month}/${day} ${time}`;
+}
+
+export type DueLevel = 'overdue' | 'soon' | 'later';
+
+export function dueLevel(dueAt: string, now = new Date()): DueLevel {
+    const remaining = new Date(dueAt).getTime() - now.getTime();
+    if (remaining < 0) return 'overdue';
+    if (remaining <= ESCALATE_TO_S_WITHIN_MS) return 'soon';
+    return 'later';
+}
+
+/** The priority a task should be raised to because of its deadline, or null if it is fine as is. */
+export function escalationTarget(task: Pick<Task, 'priority' | 'due_at'>, now = new Date()): Priority | null {
+    if (!task.due_at) return null;
+    const remaining = new Date(task.due_at).getTime() - now.getTime();
+
+    let target: Priority | null = null;
+    if (remaining <= ESCALATE_TO_S_WITHIN_MS) target = 'S';
+    else if (remaining <= ESCALATE_TO_A_WITHIN_MS) target = 'A';
+
+    if (!target || priorityOrder[task.priority] <= priorityOrder[target]) return null;
+    return target;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicate, mergePatch, titleSimilarity } from "@/utils/duplicates";
+import { task } from "@/test/fixtures";
+
+describe("titleSimilarity", () => {
+    it("ignores particles, spaces and width", () => {
+        expect(titleSimilarity("資料作成", "資料の作成")).toBe(1);
+        expect(titleSimilarity("ＡＢＣ 対応", "abc対応")).toBe(1);
+        expect(titleSimilarity("資料作成", "資料確認")).toBeLessThan(0.8);
+    });
+});
+
+describe("findDuplicate", () => {
+    it("skips done, trashed and sub tasks", () => {
+        const tasks = [
+            task({ id: 'done', title: '資料作成', status: '完了' }),
+            task({ id: 'trash', title: '資料作成', status: '削除済み' }),
+            task({ id: 'sub', title: '資料作成', parent_id: 'p' }),
+        ];
+        expect(findDuplicate("資料の作成", tasks)).toBeNull();
+        expect(findDuplicate("資料の作成", [...tasks, task({ id: 'open', title: '資料作成', status: '保留' })])?.task.id).toBe('open');
+    });
+});
+
+describe("mergePatch", () => {
+    it("takes the more urgent rank, the earlier deadline and a missing category", () => {
+        expect(mergePatch(
+            { priority: 'B', category: '', due_at: '2026-03-10T00:00:00Z' },
+            { priority: 'S', category: '営業', due_at: '2026-03-05T00:00:00Z' },
+        )).toEqual({ priority: 'S', category: '営業', due_at: '2026-03-05T00:00:00Z' });
+        expect(mergePatch({ priority: 'S', category: '開発', due_at: null }, { priority: 'C', category: '営業', due_at: null })).toEqual({});
+    });
+});
@@ -0,0 +1,71 @@
+import { Task } from "@/types";
+import { priorityOrder } from "@/utils/taskOrder";
+import { isOpen } from "@/utils/statuses";
+
+// Duplicate detection for new tasks, shared by the LINE webhook and the dashboard.
+// Titles are compared after normalization, then by character-bigram similarity,
+// so "資料作成" and "資料の作成" match but "資料作成" and "資料確認" do not.
+
+export const DUPLICATE_THRESHOLD = 0.8;
+
+type MergeSource = Pick<Task, 'priority' | 'category' | 'due_at'>;
+
+/** Full-width to half-width, lower case, without spaces, punctuation and particles that rarely matter. */
+export function normalizeTitle(title: string) {
+    return title
+        .normalize('NFKC')
+        .toLowerCase()
+        .replace(/[\s、。,.・!?！？「」『』()（）【】\-ー〜~]/g, '')
+        .replace(/[のをにはがへ]/g, '');
+}
+
+function bigrams(text: string): string[] {
+    if (text.length < 2) return [text];
+    return Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+}
+
+/** Dice coefficient of the normalized titles' bigrams, 0-1. */
+export function titleSimilarity(a: string, b: string) {
+    const x = normalizeTitle(a);
+    const y = normalizeTitle(b);
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+
+    const counts = new Map<string, number>();
+    for (const gram of bigrams(x)) counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    let shared = 0;
+    const yGrams = bigrams(y);
+    for (const gram of yGrams) {
+        const count = counts.get(gram) ?? 0;
+        if (count > 0) {
+            shared++;
+            counts.set(gram, count - 1);
+        }
+    }
+    return (2 * shared) / (bigrams(x).length + yGrams.length);
+}
+
+// Subtasks are checklist items, not tasks a new message could duplicate
+const isActive = (t: Task) => !t.parent_id && isOpen(t.status);
+
+/** The most similar active task, if it is similar enough to be a likely duplicate. */
+export function findDuplicate(title: string, tasks: Task[]): { task: Task; score: number } | null {
+    let best: { task: Task; score: number } | null = null;
+    for (const task of tasks.filter(isActive)) {
+        const score = titleSimilarity(title, task.title);
+        if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) best = { task, score };
+    }
+    return best;
+}
+
+/**
+ * Fields of `target` to change when `other` is merged into it:
+ * the more urgent rank, the earlier deadline, and a category if the target has none.
+ */
+export function mergePatch(target: MergeSource, other: MergeSource): Partial<MergeSource> {
+    const patch: Partial<MergeSource> = {};
+    if (priorityOrder[other.priority] < priorityOrder[target.priority]) patch.priority = other.priority;
+    if (other.due_at && (!target.due_at || Date.parse(other.due_at) < Date.parse(target.due_at))) patch.due_at = other.due_at;
+    if (!target.category && other.category) patch.category = other.category;
+    return patch;
+}
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// The secret is read when the module loads
+async function load(secret: string) {
+    vi.resetModules();
+    vi.stubEnv("DASHBOARD_TOKEN_SECRET", secret);
+    return import("@/utils/extractionSignature");
+}
+
+describe("extraction signatures", () => {
+    beforeEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("vouch only for the user, title and rank the analysis returned", async () => {
+        const { isSignedExtraction, signExtractedTask } = await load("secret");
+        const task = { title: "資料作成", priority: "B" };
+        const analysis = signExtractedTask("u1", task);
+
+        expect(isSignedExtraction("u1", { ...task, category: "営業", analysis })).toBe(true);
+        expect(isSignedExtraction("u2", { ...task, analysis })).toBe(false);
+        expect(isSignedExtraction("u1", { ...task, priority: "S", analysis })).toBe(false);
+        expect(isSignedExtraction("u1", task)).toBe(false);
+    });
+
+    it("vouch for nothing without a secret", async () => {
+        const { isSignedExtraction, signExtractedTask } = await load("");
+        expect(signExtractedTask("u1", { title: "資料作成", priority: "B" })).toBeNull();
+        expect(isSignedExtraction("u1", { title: "資料作成", priority: "B", analysis: "x" })).toBe(false);
+    });
+});
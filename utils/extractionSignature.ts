@@ -0,0 +1,32 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Tasks the dashboard adds from /api/tasks/analyze are the AI's: they are recorded with source AI
+// and keep the rank it chose in ai_priority, which rank learning compares later edits with.
+// The browser cannot be trusted to say so, so the analysis signs each task it returns (`analysis`)
+// and POST /api/tasks only counts tasks with a valid signature as the AI's.
+
+const SECRET = process.env.DASHBOARD_TOKEN_SECRET || "";
+
+interface Signed {
+    title?: unknown;
+    priority?: unknown;
+    analysis?: unknown;
+}
+
+const sign = (userId: string, task: Signed) =>
+    createHmac("sha256", SECRET).update(JSON.stringify([userId, task.title, task.priority])).digest("base64url");
+
+/** The signature for an extracted task, or null if DASHBOARD_TOKEN_SECRET is not set. */
+export function signExtractedTask(userId: string, task: Signed) {
+    return SECRET ? sign(userId, task) : null;
+}
+
+/** Whether `input` came from this user's analysis with the title and rank the AI gave it. */
+export function isSignedExtraction(userId: string, input: unknown) {
+    if (!SECRET || !input || typeof input !== 'object') return false;
+    const { analysis } = input as Signed;
+    if (typeof analysis !== 'string') return false;
+    const expected = Buffer.from(sign(userId, input as Signed));
+    const actual = Buffer.from(analysis);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { classifyIntents, describeIntent, needsConfirmation } from "@/utils/intents";
+import { task } from "@/test/fixtures";
+
+const gemini = vi.hoisted(() => ({ generateContent: vi.fn() }));
+
+vi.mock("@/utils/gemini", () => ({ model: gemini }));
+
+const tasks = [
+    task({ id: 'meeting', ref: 1, title: '会議資料の作成' }),
+    task({ id: 'quote', ref: 2, title: 'A社見積書の送付', priority: 'A' }),
+];
+
+// The model answers with JSON for every line it was sent
+const answer = (items: object[]) => gemini.generateContent.mockResolvedValue({ response: { text: () => JSON.stringify(items) } });
+
+describe("classifyIntents with the keyword rules", () => {
+    beforeEach(() => {
+        vi.stubEnv("GOOGLE_API_KEY", "");
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("maps a trailing verb to a status change of the task the rest of the line names", async () => {
+        const [complete, hold, trash] = await classifyIntents(["会議資料のやつ終わった", "見積書は後回し", "A社見積書いらない"], tasks);
+
+        expect(complete).toMatchObject({ action: 'complete', task: { id: 'meeting' }, patch: { status: '完了' } });
+        expect(hold).toMatchObject({ action: 'hold', task: { id: 'quote' }, patch: { status: '保留' } });
+        expect(trash).toMatchObject({ action: 'delete', task: { id: 'quote' }, patch: { status: '削除済み' } });
+        expect(needsConfirmation(trash!)).toBe(true);
+        expect(needsConfirmation(complete!)).toBe(false);
+    });
+
+    it("leaves new tasks and lines that name no task alone, keeping line positions", async () => {
+        expect(await classifyIntents(["牛乳を買う", "ランチ終わった", "会議資料終わった"], tasks))
+            .toEqual([null, null, expect.objectContaining({ task: tasks[0] })]);
+        expect(await classifyIntents(["会議資料終わった"], [])).toEqual([null]);
+    });
+});
+
+describe("classifyIntents with the model", () => {
+    beforeEach(() => {
+        vi.stubEnv("GOOGLE_API_KEY", "key");
+        gemini.generateContent.mockReset();
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it("sends only lines that look like commands and finds tasks by their #ref", async () => {
+        answer([
+            { line: 0, action: 'priority', ref: 2, value: 'S' },
+            { line: 1, action: 'edit', ref: 1, value: '会議資料の最終版' },
+        ]);
+        const intents = await classifyIntents(["牛乳を買う", "見積書の優先度を上げて", "会議資料のタイトル変更して"], tasks);
+
+        expect(gemini.generateContent).toHaveBeenCalledTimes(1);
+        expect(intents).toEqual([
+            null,
+            { line: "見積書の優先度を上げて", action: 'priority', task: tasks[1], patch: { priority: 'S', status: '未処理' } },
+            { line: "会議資料のタイトル変更して", action: 'edit', task: tasks[0], patch: { title: '会議資料の最終版' } },
+        ]);
+    });
+
+    it("ignores unknown refs, unknown ranks and empty titles", async () => {
+        answer([
+            { line: 0, action: 'complete', ref: 99 },
+            { line: 1, action: 'priority', ref: 1, value: 'Z' },
+            { line: 2, action: 'edit', ref: 2, value: ' ' },
+        ]);
+        expect(await classifyIntents(["何か終わった", "会議資料の優先度変更", "見積書を修正"], tasks)).toEqual([null, null, null]);
+    });
+
+    it("falls back to the keyword rules when the model fails", async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        gemini.generateContent.mockRejectedValue(new Error("quota"));
+        const [intent] = await classifyIntents(["会議資料終わった"], tasks);
+        expect(intent).toMatchObject({ action: 'complete', task: { id: 'meeting' } });
+    });
+});
+
+describe("describeIntent", () => {
+    it("names the task by its #ref", () => {
+        expect(describeIntent({ task: tasks[0], patch: { status: '完了' } })).toBe("#1「会議資料の作成」を完了に");
+        expect(describeIntent({ task: tasks[1], patch: { status: '削除済み' } })).toBe("#2「A社見積書の送付」を削除");
+        expect(describeIntent({ task: tasks[0], patch: { title: '議事録' } })).toBe("#1「会議資料の作成」→「議事録」に修正");
+    });
+});
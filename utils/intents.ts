@@ -0,0 +1,186 @@
+import { GenerationConfig, SchemaType } from "@google/generative-ai";
+import { model } from "@/utils/gemini";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { normalizeTitle, titleSimilarity } from "@/utils/duplicates";
+import { defaultProvider, ruleBasedProvider, withTimeout } from "@/utils/taskExtraction";
+import { isPriority, TaskPatch } from "@/utils/tasks";
+import { Task } from "@/types";
+
+// Free-text commands on existing tasks ("会議資料のやつ終わった"). Lines from LINE that none of
+// the command regexes match are checked here before they are treated as new tasks.
+// Like task extraction, Gemini does the mapping and a keyword matcher is the offline fallback.
+
+export type IntentAction = 'complete' | 'progress' | 'hold' | 'delete' | 'edit' | 'priority';
+
+export interface Intent {
+    line: string;
+    action: IntentAction;
+    task: Task;
+    patch: TaskPatch;
+}
+
+// Overwriting a title or trashing a task is only done after the user confirms
+export const needsConfirmation = (intent: Intent) => intent.action === 'delete' || intent.action === 'edit';
+
+// Cheap pre-filter so ordinary new tasks never cost an extra model call
+const COMMAND_HINT = /終わ|おわ|完了|済ん|済み|すんだ|できた|やった|片付|消して|削除|いらない|不要|やめ|始め|着手|取りかか|取り掛か|進めて|後回し|保留|変更|変えて|直して|修正|ランク|優先/;
+
+const statusWords: Record<string, { action: IntentAction; pattern: RegExp }> = {
+    '完了': { action: 'complete', pattern: /(?:は|が|を|も)?\s*(?:終わった|終わりました|おわった|終了した|完了した|完了です|完了|済んだ|済みました|すんだ|できた|できました|やった|やりました|片付いた)[。!！]*$/ },
+    '削除済み': { action: 'delete', pattern: /(?:は|を|も)?\s*(?:消して|削除して|削除|いらない|いらなくなった|不要になった|不要|やめた|やめる)[。!！]*$/ },
+    '進行中': { action: 'progress', pattern: /(?:を|に|は)?\s*(?:始めた|始めます|着手した|着手|取りかかった|取り掛かった|進めてる|進めています)[。!！]*$/ },
+    '保留': { action: 'hold', pattern: /(?:は|を)?\s*(?:後回し|後回しで|保留|保留で|保留にして)[。!！]*$/ },
+};
+
+// Fillers people put between the task name and the verb
+const FILLER = /(?:のやつ|の件|のこと|って|の)$/;
+
+const MATCH_THRESHOLD = 0.5;
+
+// People shorten titles ("見積書" for "A社見積書の送付"), so containment counts as a good match
+function bestMatch(phrase: string, tasks: Task[]): Task | null {
+    const short = normalizeTitle(phrase);
+    let best: { task: Task; score: number } | null = null;
+    for (const task of tasks) {
+        const contained = short.length >= 2 && normalizeTitle(task.title).includes(short);
+        const score = contained ? Math.max(0.8, titleSimilarity(phrase, task.title)) : titleSimilarity(phrase, task.title);
+        if (score >= MATCH_THRESHOLD && (!best || score > best.score)) best = { task, score };
+    }
+    return best?.task ?? null;
+}
+
+function matchByRules(line: string, tasks: Task[]): Intent | null {
+    for (const [status, { action, pattern }] of Object.entries(statusWords)) {
+        if (!pattern.test(line)) continue;
+        const phrase = line.replace(pattern, '').trim().replace(FILLER, '');
+        const task = phrase ? bestMatch(phrase, tasks) : null;
+        if (task) return { line, action, task, patch: { status: status as TaskPatch['status'] } };
+    }
+    return null;
+}
+
+const generationConfig: GenerationConfig = {
+    responseMimeType: "application/json",
+    responseSchema: {
+        type: SchemaType.ARRAY,
+        items: {
+            type: SchemaType.OBJECT,
+            properties: {
+                line: { type: SchemaType.INTEGER },
+                action: { type: SchemaType.STRING, format: "enum", enum: ['none', 'complete', 'progress', 'hold', 'delete', 'edit', 'priority'] },
+                ref: { type: SchemaType.INTEGER, nullable: true },
+                value: { type: SchemaType.STRING, nullable: true },
+            },
+            required: ['line', 'action'],
+        },
+    },
+};
+
+interface RawIntent {
+    line?: unknown;
+    action?: unknown;
+    ref?: unknown;
+    value?: unknown;
+}
+
+async function matchByModel(lines: string[], tasks: Task[]): Promise<(Intent | null)[]> {
+    const prompt = `ユーザーがタスク管理アプリに送ったメッセージの各行が、既存タスクへの操作かどうかを判定してください。
+
+既存タスク:
+${tasks.map(t => `#${t.ref} ${t.title}（${t.priority}・${t.status}）`).join("\n")}
+
+メッセージ:
+${lines.map((l, i) => `${i}: ${l}`).join("\n")}
+
+各行について次の形式で返してください：
+- line: 行番号
+- action: complete（完了した）/ progress（着手した）/ hold（保留・後回し）/ delete（不要・削除）/ edit（タイトル変更）/ priority（優先度変更）/ none（新しいタスク、または判断できない）
+- ref: 対象タスクの # 番号。確信が持てない場合は action を none にしてください
+- value: edit なら新しいタイトル、priority なら S/A/B/C/DEV/IDEA のいずれか。それ以外は null`;
+
+    const result = await model.generateContent({ contents: [{ role: 'user', parts: [{ text: prompt }] }], generationConfig });
+    const parsed: unknown = JSON.parse(result.response.text());
+    const raw = Array.isArray(parsed) ? parsed as RawIntent[] : [];
+
+    return lines.map((line, i) => {
+        const item = raw.find(r => r.line === i);
+        const task = tasks.find(t => t.ref === item?.ref);
+        if (!item || !task) return null;
+        const value = typeof item.value === 'string' ? item.value.trim() : '';
+
+        switch (item.action) {
+            case 'complete': return { line, action: 'complete', task, patch: { status: '完了' } };
+            case 'progress': return { line, action: 'progress', task, patch: { status: '進行中' } };
+            case 'hold': return { line, action: 'hold', task, patch: { status: '保留' } };
+            case 'delete': return { line, action: 'delete', task, patch: { status: '削除済み' } };
+            case 'edit': return value ? { line, action: 'edit', task, patch: { title: value } } : null;
+            case 'priority': return isPriority(value) ? { line, action: 'priority', task, patch: { priority: value, status: '未処理' } } : null;
+            default: return null;
+        }
+    });
+}
+
+/**
+ * For each line, the existing task operation it most likely means, or null for a new task.
+ * `tasks` are the candidates (active tasks). Falls back to keyword matching if the model fails.
+ */
+export async function classifyIntents(lines: string[], tasks: Task[]): Promise<(Intent | null)[]> {
+    const candidates = lines.map(line => COMMAND_HINT.test(line));
+    const hinted = lines.filter((_, i) => candidates[i]);
+    if (hinted.length === 0 || tasks.length === 0) return lines.map(() => null);
+
+    let matches: (Intent | null)[];
+    if (defaultProvider() === ruleBasedProvider) {
+        matches = hinted.map(line => matchByRules(line, tasks));
+    } else {
+        try {
+            matches = await withTimeout(matchByModel(hinted, tasks));
+        } catch (error) {
+            console.error("Intent classification failed, using rules:", error);
+            matches = hinted.map(line => matchByRules(line, tasks));
+        }
+    }
+
+    let next = 0;
+    return lines.map((_, i) => candidates[i] ? matches[next++] : null);
+}
+
+// Confirmations waiting for はい / いいえ, stored like pending_tasks
+interface PendingChange {
+    task_id: string;
+    patch: TaskPatch;
+}
+
+export async function savePendingIntents(userId: string, intents: Intent[]): Promise<string> {
+    const changes: PendingChange[] = intents.map(i => ({ task_id: i.task.id, patch: i.patch }));
+    const { data, error } = await supabaseAdmin
+        .from('pending_intents')
+        .insert([{ user_id: userId, changes }])
+        .select('id')
+        .single();
+
+    if (error) throw error;
+    return data.id as string;
+}
+
+/** Removes and returns the confirmed changes, or null if they were already answered. */
+export async function takePendingIntents(userId: string, id: string): Promise<PendingChange[] | null> {
+    const { data, error } = await supabaseAdmin
+        .from('pending_intents')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('changes')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? (data.changes as PendingChange[]) : null;
+}
+
+export function describeIntent(intent: Pick<Intent, 'task' | 'patch'>) {
+    const { task, patch } = intent;
+    if (patch.title) return `#${task.ref}「${task.title}」→「${patch.title}」に修正`;
+    if (patch.priority) return `#${task.ref}「${task.title}」を ${patch.priority} に変更`;
+    if (patch.status === '削除済み') return `#${task.ref}「${task.title}」を削除`;
+    return `#${task.ref}「${task.title}」を${patch.status}に`;
+}
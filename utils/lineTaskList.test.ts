@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { messagingApi } from "@line/bot-sdk";
+import { Task, PRIORITIES } from "@/types";
+import { generateTaskListMessage, MAX_CAROUSEL_BYTES } from "@/utils/lineTaskList";
+import { decodePostback, encodePostback, isPostbackTask } from "@/utils/postbacks";
+import { DEFAULT_RANK_COLUMNS } from "@/utils/rankColumns";
+import { task } from "@/test/fixtures";
+
+const LINE_CAROUSEL_LIMIT = 50_000;
+const LINE_BUBBLE_LIMIT = 30_000;
+
+let nextRef = 100;
+// Busy cards: a long title, a category, a deadline and a rule on each
+const boardTask = (fields: Partial<Task>) => task({
+    id: crypto.randomUUID(), ref: nextRef++, title: '取引先A社向け 提案資料の作成とレビュー依頼（第2版）', category: '営業PJ',
+    status: '進行中', due_at: '2026-03-15T08:00:00Z', recurrence: { type: 'weekly', days: [1, 4] }, ...fields,
+});
+
+// A full board: ten tasks in every rank, some with long titles and checklists
+function fullList(title?: string) {
+    const tasks = PRIORITIES.flatMap(priority => Array.from({ length: 10 }, () => boardTask({ priority, ...(title && { title }) })));
+    const subtasks = new Map(tasks.filter((_, i) => i % 3 === 0).map(t =>
+        [t.id, Array.from({ length: 8 }, (_, i) => boardTask({ parent_id: t.id, title: `チェック項目 ${i + 1} ${t.title}` }))]));
+    return { tasks, subtasks };
+}
+
+const options = {
+    dashboardUrl: `https://example.vercel.app/?t=${'x'.repeat(160)}`,
+    listId: 'abcd1234',
+    columns: DEFAULT_RANK_COLUMNS,
+};
+const size = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+const bubblesOf = (message: messagingApi.FlexMessage) => (message.contents as messagingApi.FlexCarousel).contents;
+
+describe("generateTaskListMessage", () => {
+    it("stays within LINE's size limits for a full list", () => {
+        for (const title of [undefined, 'あ'.repeat(200)]) {
+            const { tasks, subtasks } = fullList(title);
+            const message = generateTaskListMessage(tasks, { ...options, subtasks });
+            expect(size(message)).toBeLessThan(LINE_CAROUSEL_LIMIT);
+            expect(size(message.contents)).toBeLessThanOrEqual(MAX_CAROUSEL_BYTES);
+            for (const bubble of bubblesOf(message)) expect(size(bubble)).toBeLessThan(LINE_BUBBLE_LIMIT);
+        }
+    });
+
+    it("offers the ranks that do not fit as buttons", () => {
+        const { tasks, subtasks } = fullList('あ'.repeat(200));
+        const bubbles = bubblesOf(generateTaskListMessage(tasks, { ...options, subtasks }));
+        const json = JSON.stringify(bubbles.at(-1));
+        expect(json).toContain("ほかのランク");
+        expect(json).toContain(encodePostback({ action: 'page', taskId: '', value: 'IDEA:0', listId: options.listId }));
+    });
+
+    it("shows every rank when they fit", () => {
+        const tasks = PRIORITIES.map(priority => boardTask({ priority }));
+        expect(bubblesOf(generateTaskListMessage(tasks, options))).toHaveLength(PRIORITIES.length);
+    });
+
+    it("names tasks by their handle in the buttons", () => {
+        const target = boardTask({ ref: 42 });
+        const json = JSON.stringify(generateTaskListMessage([target], options));
+        expect(json).not.toContain(target.id);
+
+        const data = encodePostback({ action: 'status', taskId: '', ref: 42, value: '完了', listId: options.listId });
+        expect(json).toContain(data);
+        const postback = decodePostback(data)!;
+        expect(isPostbackTask(target, postback)).toBe(true);
+        expect(isPostbackTask({ ...target, ref: 43 }, postback)).toBe(false);
+    });
+});
@@ -0,0 +1,287 @@
+import { messagingApi } from "@line/bot-sdk";
+import { Category, Task, Priority, RankColumn, Status, PRIORITIES, STATUSES } from "@/types";
+import { formatDue } from "@/utils/dueDate";
+import { encodePostback, postbackTask } from "@/utils/postbacks";
+import { subtaskProgress } from "@/utils/subtasks";
+import { formatRecurrence } from "@/utils/recurrence";
+import { categoryKey, matchCategory } from "@/utils/categoryNames";
+import { DEFAULT_RANK_COLUMNS, findRank, rankColumn, rankLabel, rankTitle } from "@/utils/rankColumns";
+import { isOpen, isStatus, STATUS_DEFINITIONS } from "@/utils/statuses";
+
+// The LINE task list: a carousel with one bubble per priority in the user's column order and
+// colors (see utils/rankColumns.ts), paged so that no bubble outgrows LINE's Flex size limits.
+// LINE also rejects a carousel over 50 KB, so ranks that do not fit are offered as buttons instead.
+// Row numbers always refer to the full active list, so "3 完了" means the same task whether
+// the user looks at 一覧 or 一覧 S.
+
+export const PAGE_SIZE = 5;
+const MAX_BUBBLES = 12; // LINE carousel limit
+// LINE's limit is 50 KB for the carousel and 30 KB per bubble; this leaves room for the rest of the message.
+// A page of rows with their capped checklists stays well under the bubble limit.
+export const MAX_CAROUSEL_BYTES = 45_000;
+const MAX_SUBTASK_LINES = 5;
+
+export type ListFilter =
+    | { kind: 'priority'; value: Priority }
+    | { kind: 'status'; value: Status }
+    | { kind: 'category'; value: string };
+
+// Only statuses that appear in the list can narrow it
+const statusFilters: Status[] = STATUSES.filter(isOpen);
+
+/**
+ * "S", "開発", "進行中", "〇〇PJ" ... → filter, or null if the word is not a rank (see findRank),
+ * a status or one of `categories`.
+ */
+export function parseListFilter(word: string, categories: Pick<Category, 'name'>[] = [], columns: RankColumn[] = DEFAULT_RANK_COLUMNS): ListFilter | null {
+    const priority = findRank(word, columns);
+    if (priority) return { kind: 'priority', value: priority };
+    const status = statusFilters.find(s => s === word);
+    if (status) return { kind: 'status', value: status };
+    const category = matchCategory(word, categories);
+    return category ? { kind: 'category', value: category.name } : null;
+}
+
+export const encodeFilter = (filter: ListFilter | null) => filter ? `${filter.kind}:${filter.value}` : '';
+
+export function decodeFilter(encoded: string): ListFilter | null {
+    const separator = encoded.indexOf(':');
+    const kind = encoded.slice(0, separator);
+    const value = encoded.slice(separator + 1);
+    if (kind === 'priority' && PRIORITIES.includes(value as Priority)) return { kind, value: value as Priority };
+    if (kind === 'status' && isStatus(value) && statusFilters.includes(value)) return { kind, value };
+    if (kind === 'category' && value) return { kind, value };
+    return null;
+}
+
+function matches(task: Task, filter: ListFilter | null) {
+    if (!filter) return true;
+    switch (filter.kind) {
+        case 'priority': return task.priority === filter.value;
+        case 'status': return task.status === filter.value;
+        // Tasks from before categories existed may spell the name slightly differently
+        case 'category': return !!task.category && categoryKey(task.category) === categoryKey(filter.value);
+    }
+}
+
+interface ListOptions {
+    dashboardUrl: string;
+    listId: string;
+    columns: RankColumn[];
+    filter?: ListFilter | null;
+    // Checklist items per task ID, shown under their parent as "3-1", "3-2", ...
+    subtasks?: Map<string, Task[]>;
+    // Show only this priority's bubble at this page (used by the "next page" buttons)
+    page?: { priority: Priority; index: number };
+}
+
+/** `tasks` must be the full active list in display order. */
+export function generateTaskListMessage(tasks: Task[], options: ListOptions): messagingApi.FlexMessage {
+    const { dashboardUrl, listId, columns, filter = null, subtasks = new Map<string, Task[]>(), page } = options;
+    const numbered = tasks.map((task, index) => ({ task, number: index + 1 })).filter(({ task }) => matches(task, filter));
+
+    const groups = columns
+        .map(column => column.key)
+        .filter(priority => !page || page.priority === priority)
+        .map(priority => ({ priority, rows: numbered.filter(({ task }) => task.priority === priority) }))
+        .filter(group => group.rows.length > 0);
+
+    const pageButton = (priority: Priority, label: string, index: number): messagingApi.FlexButton => ({
+        type: "button",
+        action: {
+            type: "postback",
+            label,
+            data: encodePostback({ action: 'page', taskId: '', value: `${priority}:${index}`, listId, filter: encodeFilter(filter) }),
+        },
+        height: "sm",
+        style: "secondary",
+        flex: 1
+    });
+
+    const bubbles = groups.slice(0, MAX_BUBBLES).map(({ priority, rows }) => {
+        const pageCount = Math.ceil(rows.length / PAGE_SIZE);
+        const pageIndex = Math.min(page?.index ?? 0, pageCount - 1);
+        const pageRows = rows.slice(pageIndex * PAGE_SIZE, (pageIndex + 1) * PAGE_SIZE);
+
+        return bubble({
+            title: `${rankTitle(rankColumn(columns, priority))}（${rows.length}件${pageCount > 1 ? `・${pageIndex + 1}/${pageCount}` : ''}）`,
+            color: rankColumn(columns, priority).color,
+            dashboardUrl,
+            rows: pageRows.map(({ task, number }) => taskRow(task, number, listId, rankColumn(columns, task.priority), subtasks.get(task.id) ?? [])),
+            paging: pageCount > 1 ? [
+                ...(pageIndex > 0 ? [pageButton(priority, "◀ 前へ", pageIndex - 1)] : []),
+                ...(pageIndex < pageCount - 1 ? [pageButton(priority, "次へ ▶", pageIndex + 1)] : []),
+            ] : [],
+        });
+    });
+
+    if (bubbles.length === 0) {
+        bubbles.push(bubble({
+            title: "📋 タスク一覧",
+            color: "#1DB446",
+            dashboardUrl,
+            rows: [{ type: "text", text: filter ? "該当するタスクはありません" : "未処理のタスクはありません", color: "#aaaaaa", align: "center", size: "sm" }],
+            paging: [],
+        }));
+    }
+
+    // The first `count` bubbles, and one with buttons that open the ranks left out
+    const carousel = (count: number) => count === bubbles.length ? bubbles : [
+        ...bubbles.slice(0, count),
+        bubble({
+            title: "📋 ほかのランク",
+            color: "#1DB446",
+            dashboardUrl,
+            rows: [
+                { type: "text", text: "一度に表示しきれないランクです", color: "#aaaaaa", size: "xs", wrap: true },
+                ...groups.slice(count, bubbles.length).map(({ priority, rows }) =>
+                    pageButton(priority, `${rankLabel(rankColumn(columns, priority))}（${rows.length}件）`.slice(0, 20), 0)),
+            ],
+            paging: [],
+        }),
+    ];
+    let count = bubbles.length;
+    while (count > 1 && byteLength(carousel(count)) > MAX_CAROUSEL_BYTES) count--;
+
+    return {
+        type: "flex",
+        altText: "タスク一覧",
+        contents: { type: "carousel", contents: carousel(count) },
+    };
+}
+
+const byteLength = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).length;
+
+function bubble({ title, color, dashboardUrl, rows, paging }: {
+    title: string;
+    color: string;
+    dashboardUrl: string;
+    rows: messagingApi.FlexComponent[];
+    paging: messagingApi.FlexComponent[];
+}): messagingApi.FlexBubble {
+    return {
+        type: "bubble",
+        header: {
+            type: "box",
+            layout: "vertical",
+            contents: [
+                { type: "text", text: title, weight: "bold", size: "md", color, wrap: true }
+            ],
+            action: { type: "uri", label: "Dashboard", uri: dashboardUrl }
+        },
+        body: {
+            type: "box",
+            layout: "vertical",
+            contents: rows
+        },
+        footer: {
+            type: "box",
+            layout: "vertical",
+            spacing: "sm",
+            contents: [
+                ...(paging.length > 0 ? [{ type: "box", layout: "horizontal", spacing: "sm", contents: paging } as messagingApi.FlexBox] : []),
+                {
+                    type: "button",
+                    action: { type: "uri", label: "ダッシュボードを開く", uri: dashboardUrl },
+                    style: "primary",
+                    color: "#1DB446",
+                    height: "sm"
+                },
+                {
+                    type: "text",
+                    text: "例: '1 完了' / '#12 完了' / '一覧 S' / '一覧 〇〇PJ'",
+                    size: "xxs",
+                    color: "#aaaaaa",
+                    align: "center"
+                }
+            ]
+        }
+    };
+}
+
+function taskRow(task: Task, number: number, listId: string, column: RankColumn, subtasks: Task[]): messagingApi.FlexBox {
+    const statusIcon = STATUS_DEFINITIONS[task.status].icon;
+    // Letter ranks are named in the meta column; the others are marked by their emoji
+    const priorityIcon = !['S', 'A', 'B', 'C'].includes(column.key) && column.emoji ? `${column.emoji} ` : '';
+    const dueText = task.due_at ? ` ⏰${formatDue(task.due_at)}` : '';
+    const progress = subtaskProgress(subtasks);
+    const progressText = progress.total > 0 ? ` (${progress.done}/${progress.total})` : '';
+    const recurrenceText = task.recurrence ? ` 🔁${formatRecurrence(task.recurrence)}` : '';
+    const itemText = `${number}. ${statusIcon}${priorityIcon}${task.title}${progressText}${recurrenceText}${dueText}`;
+    const refText = task.ref !== null ? `#${task.ref} ` : '';
+    const metaText = `${refText}(${rankLabel(column)})`;
+
+    const actionButton = (label: string, action: 'status' | 'rank', value: string, displayText: string): messagingApi.FlexText => ({
+        type: "text",
+        text: label,
+        size: "xxs",
+        color: "#888888",
+        align: "center",
+        action: {
+            type: "postback",
+            label,
+            data: encodePostback({ action, ...postbackTask(task), value, listId }),
+            displayText
+        }
+    });
+
+    return {
+        type: "box",
+        layout: "vertical",
+        contents: [
+            {
+                type: "box",
+                layout: "horizontal",
+                contents: [
+                    {
+                        type: "text",
+                        text: itemText,
+                        flex: 3,
+                        size: "sm",
+                        color: "#333333",
+                        wrap: true
+                    },
+                    {
+                        type: "text",
+                        text: metaText,
+                        flex: 2,
+                        size: "sm",
+                        color: column.color,
+                        align: "end",
+                        weight: "bold"
+                    }
+                ]
+            },
+            ...subtasks.slice(0, MAX_SUBTASK_LINES).map((subtask, i): messagingApi.FlexText => ({
+                type: "text",
+                text: `${subtask.status === '完了' ? '☑' : '☐'} ${number}-${i + 1} ${subtask.title}`,
+                size: "xs",
+                color: subtask.status === '完了' ? "#aaaaaa" : "#555555",
+                decoration: subtask.status === '完了' ? "line-through" : "none",
+                margin: "xs",
+                offsetStart: "12px",
+                wrap: true
+            })),
+            ...(subtasks.length > MAX_SUBTASK_LINES ? [{
+                type: "text",
+                text: `…ほか${subtasks.length - MAX_SUBTASK_LINES}件`,
+                size: "xs",
+                color: "#aaaaaa",
+                margin: "xs",
+                offsetStart: "12px"
+            } as messagingApi.FlexText] : []),
+            {
+                type: "box",
+                layout: "horizontal",
+                spacing: "sm",
+                margin: "xs",
+                contents: [
+                    ...(['完了', '進行中', '保留'] as const).map(status =>
+                        actionButton(`${STATUS_DEFINITIONS[status].icon}${status}`, 'status', status, `#${task.ref} ${status}`)),
+                    actionButton("🔀ランク", 'rank', '', `#${task.ref} ランク変更`)
+                ]
+            }
+        ],
+        margin: "md"
+    };
+}
@@ -0,0 +1,73 @@
+import { model } from "@/utils/gemini";
+import { withTimeout } from "@/utils/taskExtraction";
+
+// Photos (whiteboards, handwritten notes) and voice memos sent to the LINE bot are turned into
+// plain text here; the webhook then treats that text like a typed message for task extraction.
+// Like task extraction, the provider is pluggable: Gemini reads the media, and a stub returns
+// fixed text so the intake path can be exercised without a model.
+
+export type MediaKind = 'image' | 'audio';
+
+export interface Media {
+    kind: MediaKind;
+    mimeType: string;
+    data: Buffer;
+}
+
+export interface TranscriptionProvider {
+    name: string;
+    /** Returns the text found in the media, one item per line, or '' if there is none. */
+    transcribe(media: Media): Promise<string>;
+}
+
+// Gemini accepts inline data up to 20MB; LINE images and voice memos are far below this
+export const MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+// Reading a photo or a minute of audio takes longer than extracting tasks from text
+const TRANSCRIPTION_TIMEOUT_MS = 30_000;
+
+const prompts: Record<MediaKind, string> = {
+    image: `この画像（ホワイトボード、手書きメモ、印刷物など）に書かれている文字をそのまま書き起こしてください。
+- 箇条書きや行の区切りは改行で保ってください。インデントも保ってください。
+- 図や装飾は無視し、文字だけを出力してください。説明や前置きは不要です。
+- 文字が読み取れない場合は何も出力しないでください。`,
+    audio: `この音声メモを日本語で書き起こしてください。
+- 話されている用件・やることごとに改行してください。
+- 「えー」「あの」などのつなぎ言葉は省いてください。説明や前置きは不要です。
+- 聞き取れる発言がない場合は何も出力しないでください。`,
+};
+
+export const geminiTranscriptionProvider: TranscriptionProvider = {
+    name: 'gemini',
+    async transcribe(media) {
+        const result = await model.generateContent([
+            { inlineData: { mimeType: media.mimeType, data: media.data.toString('base64') } },
+            { text: prompts[media.kind] },
+        ]);
+        return result.response.text();
+    },
+};
+
+// For tests and offline runs: every image or voice memo "contains" TRANSCRIPTION_STUB_TEXT
+export const stubTranscriptionProvider: TranscriptionProvider = {
+    name: 'stub',
+    async transcribe() {
+        return process.env.TRANSCRIPTION_STUB_TEXT ?? '';
+    },
+};
+
+// TRANSCRIPTION_PROVIDER=stub forces the stub, as TASK_EXTRACTION_PROVIDER=rules does for extraction
+export function defaultTranscriptionProvider(): TranscriptionProvider {
+    if (process.env.TRANSCRIPTION_PROVIDER === 'stub' || !process.env.GOOGLE_API_KEY) return stubTranscriptionProvider;
+    return geminiTranscriptionProvider;
+}
+
+/** The media's text with blank lines and trailing spaces removed. Unlike extraction there is no fallback. */
+export async function transcribeMedia(media: Media, provider = defaultTranscriptionProvider()): Promise<string> {
+    if (media.data.length > MAX_MEDIA_BYTES) throw new Error(`Media is too large: ${media.data.length} bytes`);
+    const text = await withTimeout(provider.transcribe(media), TRANSCRIPTION_TIMEOUT_MS);
+    return text
+        .split(/\r?\n/)
+        .map(line => line.trimEnd())
+        .filter(line => line.trim())
+        .join("\n");
+}
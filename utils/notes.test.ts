@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { appendNote, parseInline, parseNotes } from "@/utils/notes";
+
+describe("parseInline", () => {
+    it("splits code, bold, links and bare URLs out of the text", () => {
+        expect(parseInline("会議は `Zoom` で **10時**から [議事録](https://example.com/a) 参照")).toEqual([
+            { type: 'text', text: '会議は ' },
+            { type: 'code', text: 'Zoom' },
+            { type: 'text', text: ' で ' },
+            { type: 'bold', text: '10時' },
+            { type: 'text', text: 'から ' },
+            { type: 'link', text: '議事録', href: 'https://example.com/a' },
+            { type: 'text', text: ' 参照' },
+        ]);
+    });
+
+    it("ends a bare URL at Japanese punctuation", () => {
+        expect(parseInline("資料はhttps://example.com/docs、後で確認")).toEqual([
+            { type: 'text', text: '資料は' },
+            { type: 'link', text: 'https://example.com/docs', href: 'https://example.com/docs' },
+            { type: 'text', text: '、後で確認' },
+        ]);
+    });
+
+    it("keeps links to anything but the web as text", () => {
+        expect(parseInline("[押して](javascript:alert(1))").every(part => part.type === 'text')).toBe(true);
+        expect(parseInline("[開く](data:text/html,x)")).toEqual([{ type: 'text', text: '[開く](data:text/html,x)' }]);
+        expect(parseInline("[開く](HTTPS://example.com)")).toEqual([{ type: 'link', text: '開く', href: 'HTTPS://example.com' }]);
+    });
+});
+
+describe("parseNotes", () => {
+    it("groups headings, list items and paragraphs", () => {
+        expect(parseNotes("## 準備\n- 資料\n* 会場\n\n1行目\n2行目\n\n\n次の段落")).toEqual([
+            { type: 'heading', content: [{ type: 'text', text: '準備' }] },
+            { type: 'list', items: [[{ type: 'text', text: '資料' }], [{ type: 'text', text: '会場' }]] },
+            { type: 'paragraph', lines: [[{ type: 'text', text: '1行目' }], [{ type: 'text', text: '2行目' }]] },
+            { type: 'paragraph', lines: [[{ type: 'text', text: '次の段落' }]] },
+        ]);
+    });
+
+    it("does not treat a hashtag as a heading", () => {
+        expect(parseNotes("#12 の件")).toEqual([{ type: 'paragraph', lines: [[{ type: 'text', text: '#12 の件' }]] }]);
+    });
+});
+
+describe("appendNote", () => {
+    it("adds the text on a new line", () => {
+        expect(appendNote(null, " 住所 ")).toBe("住所");
+        expect(appendNote("電話\n\n", "住所")).toBe("電話\n住所");
+    });
+});
@@ -0,0 +1,69 @@
+// Task notes: free-form markdown for context such as meeting links, addresses or a pasted request.
+// The dashboard renders a small markdown subset (headings, lists, **bold**, `code`, [links](…))
+// and links bare URLs. No server dependencies, so the parser runs in the browser.
+
+export const MAX_NOTES_LENGTH = 10_000;
+
+export type NoteInline =
+    | { type: 'text'; text: string }
+    | { type: 'bold'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'link'; text: string; href: string };
+
+export type NoteBlock =
+    | { type: 'heading'; content: NoteInline[] }
+    | { type: 'list'; items: NoteInline[][] }
+    | { type: 'paragraph'; lines: NoteInline[][] };
+
+/** `text` on a new line after `notes`, as LINE's "2 メモ 〇〇" does. */
+export function appendNote(notes: string | null, text: string) {
+    const existing = notes?.trimEnd();
+    return existing ? `${existing}\n${text.trim()}` : text.trim();
+}
+
+// Only web links are rendered as anchors; anything else (javascript: etc.) stays text
+const isWebUrl = (href: string) => /^https?:\/\//i.test(href);
+
+// `code`, **bold**, [text](url) and bare URLs, in one left-to-right scan
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\[([^\]]+)\]\((\S+?)\)|(https?:\/\/[^\s<>()「」、。]+)/g;
+
+export function parseInline(line: string): NoteInline[] {
+    const parts: NoteInline[] = [];
+    let last = 0;
+    for (const match of line.matchAll(INLINE)) {
+        const [whole, code, bold, label, href, url] = match;
+        if (match.index > last) parts.push({ type: 'text', text: line.slice(last, match.index) });
+        if (code !== undefined) parts.push({ type: 'code', text: code });
+        else if (bold !== undefined) parts.push({ type: 'bold', text: bold });
+        else if (label !== undefined) parts.push(isWebUrl(href) ? { type: 'link', text: label, href } : { type: 'text', text: whole });
+        else parts.push({ type: 'link', text: url, href: url });
+        last = match.index + whole.length;
+    }
+    if (last < line.length) parts.push({ type: 'text', text: line.slice(last) });
+    return parts;
+}
+
+const HEADING = /^#{1,6}\s+/;
+const LIST_ITEM = /^\s*[-*・]\s+/;
+
+/** Splits notes into blocks; consecutive plain lines form one paragraph, blank lines separate them. */
+export function parseNotes(markdown: string): NoteBlock[] {
+    const blocks: NoteBlock[] = [];
+    for (const line of markdown.split(/\r?\n/)) {
+        const current = blocks[blocks.length - 1];
+        if (!line.trim()) {
+            blocks.push({ type: 'paragraph', lines: [] });
+        } else if (HEADING.test(line)) {
+            blocks.push({ type: 'heading', content: parseInline(line.replace(HEADING, '')) });
+        } else if (LIST_ITEM.test(line)) {
+            const item = parseInline(line.replace(LIST_ITEM, ''));
+            if (current?.type === 'list') current.items.push(item);
+            else blocks.push({ type: 'list', items: [item] });
+        } else if (current?.type === 'paragraph') {
+            current.lines.push(parseInline(line));
+        } else {
+            blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+        }
+    }
+    return blocks.filter(b => b.type !== 'paragraph' || b.lines.length > 0);
+}
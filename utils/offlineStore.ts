@@ -0,0 +1,61 @@
+import { Task } from '@/types';
+import { Mutation } from '@/utils/outbox';
+import { withKnownStatus } from '@/utils/statuses';
+
+// The dashboard's local copy in IndexedDB: the last known board of each user, so it opens
+// without a connection, and the outbox of changes the server has not accepted yet.
+// Storage is best effort; callers log failures and carry on with the in-memory state.
+
+const DB_NAME = 'task-board';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') return reject(new Error('IndexedDB is not available'));
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore('boards', { keyPath: 'userId' });
+            request.result.createObjectStore('outbox', { keyPath: 'seq' }).createIndex('userId', 'userId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    return dbPromise;
+}
+
+// One request in its own transaction
+async function run<T>(store: 'boards' | 'outbox', mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(store, mode).objectStore(store));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/** The board as it was last shown, or null if this browser has none for `userId`. */
+export async function loadBoard(userId: string): Promise<Task[] | null> {
+    const board = await run<{ tasks: Task[] } | undefined>('boards', 'readonly', s => s.get(userId));
+    // Boards saved before statuses were normalized on read may hold retired ones
+    return board?.tasks.map(withKnownStatus) ?? null;
+}
+
+export function saveBoard(userId: string, tasks: Task[]) {
+    return run('boards', 'readwrite', s => s.put({ userId, tasks, savedAt: new Date().toISOString() }));
+}
+
+/** Queued mutations of `userId`, oldest first. */
+export async function loadOutbox(userId: string): Promise<Mutation[]> {
+    const mutations = await run<Mutation[]>('outbox', 'readonly', s => s.index('userId').getAll(userId));
+    return mutations.sort((a, b) => a.seq - b.seq);
+}
+
+export function saveMutation(mutation: Mutation) {
+    return run('outbox', 'readwrite', s => s.put(mutation));
+}
+
+export function deleteMutation(seq: number) {
+    return run('outbox', 'readwrite', s => s.delete(seq));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import { Mutation, applyPending, createdIds, draftTask, remapIds, rollback } from "@/utils/outbox";
+import { task } from "@/test/fixtures";
+
+const mutation = (before: Task[], after: Task[]): Mutation => ({ seq: 1, userId: 'u', label: 'test', method: 'PATCH', path: '/api/tasks/x', before, after });
+
+describe("applyPending", () => {
+    it("keeps newer server values of fields the change did not set", () => {
+        const queued = mutation([task({ id: 'a' })], [task({ id: 'a', priority: 'S' })]);
+        const server = [task({ id: 'a', title: 'renamed' })];
+        expect(applyPending(server, [queued])).toEqual([task({ id: 'a', title: 'renamed', priority: 'S' })]);
+    });
+
+    it("adds created and removes deleted tasks", () => {
+        const created = draftTask('u', { title: 'new' });
+        const result = applyPending([task({ id: 'a' }), task({ id: 'b' })], [mutation([], [created]), mutation([task({ id: 'b' })], [])]);
+        expect(result.map(t => t.id)).toEqual([created.id, 'a']);
+    });
+});
+
+describe("rollback", () => {
+    it("restores only the changed fields and puts deleted tasks back", () => {
+        const board = [task({ id: 'a', priority: 'S', title: 'renamed' })];
+        expect(rollback(board, mutation([task({ id: 'a' })], [task({ id: 'a', priority: 'S' })]))).toEqual([task({ id: 'a', title: 'renamed' })]);
+        expect(rollback([], mutation([task({ id: 'b' })], [])).map(t => t.id)).toEqual(['b']);
+    });
+
+    it("drops a task whose offline creation was rejected", () => {
+        const created = draftTask('u', { title: 'new' });
+        expect(rollback([created], mutation([], [created]))).toEqual([]);
+    });
+});
+
+describe("createdIds", () => {
+    it("maps temporary ids so queued changes reach the created task", () => {
+        const created = draftTask('u', { title: 'new' });
+        const ids = createdIds(mutation([], [created]), [task({ id: 'server-id' })]);
+        const queued = { ...mutation([created], [{ ...created, priority: 'S' }]), path: `/api/tasks/${created.id}` } as Mutation;
+        expect(remapIds(queued, ids).path).toBe('/api/tasks/server-id');
+    });
+});
@@ -0,0 +1,158 @@
+import { Task } from '@/types';
+
+// Dashboard changes are applied to the board at once and recorded as mutations: one API request
+// each, with the affected tasks before and after the change. The outbox sends them in order and
+// keeps them in IndexedDB (utils/offlineStore.ts); a request that cannot reach the server stays
+// queued until the connection returns, and one the server rejects is rolled back.
+
+export interface Mutation {
+    // Position in the outbox, and its IndexedDB key
+    seq: number;
+    userId: string;
+    // Names the change in the error shown when the server rejects it
+    label: string;
+    method: 'POST' | 'PATCH' | 'DELETE';
+    path: string;
+    body?: unknown;
+    before: Task[];
+    // New tasks appear only here, deleted ones only in `before`
+    after: Task[];
+    // Reload the board once applied, for server-side effects such as a recurring task's next occurrence
+    refetch?: boolean;
+}
+
+export type MutationResult =
+    | { status: 'applied'; tasks: Task[] }
+    | { status: 'offline' }
+    | { status: 'rejected'; error: string };
+
+const TEMP_ID_PREFIX = 'local-';
+
+export const isTempId = (id: string) => id.startsWith(TEMP_ID_PREFIX);
+
+let lastSeq = 0;
+
+/** Increasing across reloads, so queued mutations keep their order. */
+export function nextSeq() {
+    lastSeq = Math.max(Date.now(), lastSeq + 1);
+    return lastSeq;
+}
+
+/** A task created on the dashboard, shown under a temporary id until the server has created it. */
+export function draftTask(userId: string, fields: Partial<Task>): Task {
+    return {
+        user_id: userId,
+        ref: null,
+        parent_id: null,
+        title: '',
+        category: '',
+        notes: null,
+        priority: 'C',
+        ai_priority: null,
+        status: '未処理',
+        sort_key: null,
+        due_at: null,
+        recurrence: null,
+        due_reminded_at: null,
+        status_changed_at: null,
+        deleted_at: null,
+        created_at: new Date().toISOString(),
+        ...fields,
+        id: `${TEMP_ID_PREFIX}${crypto.randomUUID()}`,
+    };
+}
+
+const isTaskRow = (value: unknown): value is Task =>
+    !!value && typeof value === 'object' && typeof (value as Task).id === 'string' && typeof (value as Task).title === 'string';
+
+// The task API answers with a task, a list of tasks, or an object of tasks (merge)
+function returnedTasks(data: unknown): Task[] {
+    if (Array.isArray(data)) return data.filter(isTaskRow);
+    if (isTaskRow(data)) return [data];
+    if (data && typeof data === 'object') return Object.values(data).filter(isTaskRow);
+    return [];
+}
+
+export async function sendMutation(mutation: Mutation): Promise<MutationResult> {
+    let res: Response;
+    try {
+        res = await fetch(mutation.path, {
+            method: mutation.method,
+            body: mutation.body === undefined ? undefined : JSON.stringify(mutation.body),
+        });
+    } catch {
+        return { status: 'offline' };
+    }
+    const data = await res.json().catch(() => null);
+    if (!res.ok) return { status: 'rejected', error: data?.error ?? `HTTP ${res.status}` };
+    return { status: 'applied', tasks: returnedTasks(data) };
+}
+
+/** Temporary ids of the tasks `mutation` created, mapped to the ids the server gave them. */
+export function createdIds(mutation: Mutation, applied: Task[]): Map<string, string> {
+    const ids = new Map<string, string>();
+    // Created tasks come back in request order, before any subtasks created with them
+    mutation.after.filter(t => isTempId(t.id)).forEach((t, i) => {
+        if (applied[i]) ids.set(t.id, applied[i].id);
+    });
+    return ids;
+}
+
+/** `mutation` with temporary ids replaced, for changes queued against a task created offline. */
+export function remapIds(mutation: Mutation, ids: Map<string, string>): Mutation {
+    let json = JSON.stringify(mutation);
+    for (const [tempId, id] of ids) json = json.split(tempId).join(id);
+    return JSON.parse(json);
+}
+
+// The fields a change sets, so newer server values of the other fields are kept
+function changedFields(before: Task | undefined, after: Task): Partial<Task> {
+    if (!before) return after;
+    return Object.fromEntries(
+        Object.entries(after).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(before[key as keyof Task]))
+    ) as Partial<Task>;
+}
+
+/** Queued changes to task `id`, which win over values from the server until they are sent. */
+export function pendingPatch(queue: Mutation[], id: string): Partial<Task> | undefined {
+    let patch: Partial<Task> | undefined;
+    for (const mutation of queue) {
+        const after = mutation.after.find(t => t.id === id);
+        if (after) patch = { ...patch, ...changedFields(mutation.before.find(t => t.id === id), after) };
+    }
+    return patch;
+}
+
+/** `tasks` with the queued mutations applied: new tasks added, changed fields set, deleted tasks removed. */
+export function applyPending(tasks: Task[], queue: Mutation[]): Task[] {
+    let result = tasks;
+    for (const mutation of queue) {
+        const removed = mutation.before.filter(b => !mutation.after.some(a => a.id === b.id)).map(t => t.id);
+        result = result.filter(t => !removed.includes(t.id));
+        for (const after of mutation.after) {
+            const patch = changedFields(mutation.before.find(t => t.id === after.id), after);
+            result = result.some(t => t.id === after.id)
+                ? result.map(t => t.id === after.id ? { ...t, ...patch } : t)
+                : [after, ...result];
+        }
+    }
+    return result;
+}
+
+/** `tasks` with `mutation` undone: the fields it changed restored, tasks it created or deleted removed or put back. */
+export function rollback(tasks: Task[], mutation: Mutation): Task[] {
+    const created = mutation.after.filter(a => !mutation.before.some(b => b.id === a.id)).map(t => t.id);
+    let result = tasks.filter(t => !created.includes(t.id));
+    for (const before of mutation.before) {
+        const after = mutation.after.find(t => t.id === before.id);
+        if (!result.some(t => t.id === before.id)) {
+            // A task created offline is gone for good once its creation was rejected
+            if (!isTempId(before.id)) result = [before, ...result];
+        } else if (after) {
+            const keys = Object.keys(changedFields(before, after)) as (keyof Task)[];
+            const restored = Object.fromEntries(keys.map(key => [key, before[key]])) as Partial<Task>;
+            result = result.map(t => t.id === before.id ? { ...t, ...restored } : t);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,30 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { ExtractedTask } from "@/utils/taskExtraction";
+
+// Tasks from LINE that look like duplicates wait in `pending_tasks` until the user
+// picks 統合 or 追加 in the reply. Taking a pending task deletes it, so each choice applies once.
+
+export async function savePendingTasks(userId: string, tasks: ExtractedTask[]): Promise<string[]> {
+    if (tasks.length === 0) return [];
+    const { data, error } = await supabaseAdmin
+        .from('pending_tasks')
+        .insert(tasks.map(task => ({ user_id: userId, task })))
+        .select('id');
+
+    if (error) throw error;
+    return (data as { id: string }[]).map(row => row.id);
+}
+
+/** Removes and returns a pending task, or null if it was already handled. */
+export async function takePendingTask(userId: string, id: string): Promise<ExtractedTask | null> {
+    const { data, error } = await supabaseAdmin
+        .from('pending_tasks')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('task')
+        .maybeSingle();
+
+    if (error) throw error;
+    return data ? (data.task as ExtractedTask) : null;
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+import { Task } from "@/types";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+
+// Postback payloads for the buttons in the LINE Flex list.
+// Every rendered list gets its own `listId`; a button of a given list is processed at most once
+// (postback_receipts has a unique key on user_id + data), which makes double taps harmless.
+// Task buttons name the task by its handle (#12) when it has one: the list has four per row and
+// LINE limits the size of the whole message, so the full id would crowd out rows.
+// 'page' buttons carry no task: `value` is "<priority>:<page>" and `filter` the active 一覧 filter.
+// 'merge' / 'add' answer a duplicate warning: `taskId` is the existing task, `value` the pending one.
+// 'confirm' / 'cancel' answer a confirmation of changes guessed from free text: `value` is the pending id.
+
+export type PostbackAction = 'status' | 'priority' | 'rank' | 'page' | 'merge' | 'add' | 'confirm' | 'cancel';
+
+const ACTIONS: PostbackAction[] = ['status', 'priority', 'rank', 'page', 'merge', 'add', 'confirm', 'cancel'];
+const TASK_ACTIONS: PostbackAction[] = ['status', 'priority', 'rank', 'merge', 'add'];
+
+export interface Postback {
+    action: PostbackAction;
+    taskId: string;
+    ref?: number;
+    value: string;
+    listId: string;
+    filter?: string;
+}
+
+export const newListId = () => randomUUID().slice(0, 8);
+
+/** The task fields of a postback for `task`. */
+export const postbackTask = (task: Pick<Task, 'id' | 'ref'>): Pick<Postback, 'taskId' | 'ref'> =>
+    task.ref !== null ? { taskId: '', ref: task.ref } : { taskId: task.id };
+
+export const isPostbackTask = (task: Pick<Task, 'id' | 'ref'>, postback: Postback) =>
+    postback.ref !== undefined ? task.ref === postback.ref : task.id === postback.taskId;
+
+export function encodePostback({ action, taskId, ref, value, listId, filter }: Postback) {
+    const params = new URLSearchParams({ a: action });
+    if (ref !== undefined) params.set('r', String(ref));
+    else params.set('id', taskId);
+    params.set('v', value);
+    params.set('l', listId);
+    if (filter) params.set('f', filter);
+    return params.toString();
+}
+
+export function decodePostback(data: string): Postback | null {
+    const params = new URLSearchParams(data);
+    const action = params.get('a') as PostbackAction | null;
+    const taskId = params.get('id');
+    const ref = params.has('r') ? parseInt(params.get('r')!, 10) : undefined;
+    if (!action || !ACTIONS.includes(action)) return null;
+    if (ref !== undefined && isNaN(ref)) return null;
+    if (!taskId && ref === undefined && TASK_ACTIONS.includes(action)) return null;
+    return { action, taskId: taskId ?? '', ref, value: params.get('v') ?? '', listId: params.get('l') ?? '', filter: params.get('f') ?? undefined };
+}
+
+/** Returns true the first time a user sends this exact postback, false on repeats. */
+export async function claimPostback(userId: string, data: string): Promise<boolean> {
+    const { error } = await supabaseAdmin.from('postback_receipts').insert([{ user_id: userId, data }]);
+    if (!error) return true;
+    if (error.code === '23505') return false; // unique_violation: already handled
+    throw error;
+}
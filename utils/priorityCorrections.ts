@@ -0,0 +1,87 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { AiAccuracy, Priority, Task, TaskEventSource, PRIORITIES } from "@/types";
+
+// When a user moves an AI-created task to another rank, they are correcting the AI.
+// Corrections are kept in `priority_corrections`, fed back into the extraction prompt
+// as few-shot examples, and summarized per rank on /dev.
+
+export interface PriorityCorrection {
+    id: string;
+    user_id: string;
+    task_id: string;
+    title: string;
+    ai_priority: Priority;
+    corrected_priority: Priority;
+    created_at: string;
+}
+
+// Only people correct the AI; deadline escalation and the AI itself do not count
+const CORRECTING_SOURCES: TaskEventSource[] = ['LINE', 'dashboard'];
+
+/** Records the priority change from `before` to `after` if it overrides the AI's guess. */
+export async function recordCorrection(before: Task, after: Task, source: TaskEventSource) {
+    if (!before.ai_priority || before.priority === after.priority || !CORRECTING_SOURCES.includes(source)) return;
+
+    // Like the activity log, this must never block the change itself
+    const { error } = await supabaseAdmin.from('priority_corrections').insert([{
+        user_id: after.user_id,
+        task_id: after.id,
+        title: after.title,
+        ai_priority: before.ai_priority,
+        corrected_priority: after.priority,
+    }]);
+    if (error) console.error("Priority correction record error:", error);
+}
+
+// Newest correction per task; moving a task back to the AI's rank cancels the correction
+function latestPerTask(corrections: PriorityCorrection[]): Map<string, PriorityCorrection> {
+    const latest = new Map<string, PriorityCorrection>();
+    for (const c of corrections) {
+        const seen = latest.get(c.task_id);
+        if (!seen || c.created_at > seen.created_at) latest.set(c.task_id, c);
+    }
+    return latest;
+}
+
+/** The user's most recent standing corrections, newest first, for use as few-shot examples. */
+export async function listRecentCorrections(userId: string, limit = 10): Promise<PriorityCorrection[]> {
+    const { data, error } = await supabaseAdmin
+        .from('priority_corrections')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit * 3);
+
+    if (error) throw error;
+    return [...latestPerTask(data as PriorityCorrection[]).values()]
+        .filter(c => c.corrected_priority !== c.ai_priority)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+}
+
+/** Share of AI-created tasks per user and AI rank that were left at (or returned to) the AI's rank. */
+export async function computeAiAccuracy(): Promise<AiAccuracy[]> {
+    const [tasks, corrections] = await Promise.all([
+        supabaseAdmin.from('tasks').select('id, user_id, ai_priority').not('ai_priority', 'is', null),
+        supabaseAdmin.from('priority_corrections').select('*'),
+    ]);
+    if (tasks.error) throw tasks.error;
+    if (corrections.error) throw corrections.error;
+
+    const latest = latestPerTask(corrections.data as PriorityCorrection[]);
+    const rows = new Map<string, AiAccuracy>();
+
+    for (const task of tasks.data as Pick<Task, 'id' | 'user_id' | 'ai_priority'>[]) {
+        const priority = task.ai_priority!;
+        const key = `${task.user_id}:${priority}`;
+        const row = rows.get(key) ?? { user_id: task.user_id, priority, total: 0, correct: 0 };
+        const final = latest.get(task.id)?.corrected_priority ?? priority;
+        row.total++;
+        if (final === priority) row.correct++;
+        rows.set(key, row);
+    }
+
+    return [...rows.values()].sort((a, b) =>
+        a.user_id.localeCompare(b.user_id) || PRIORITIES.indexOf(a.priority) - PRIORITIES.indexOf(b.priority)
+    );
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RANK_COLUMNS, RankColumnValidationError, aiRanks, findRank, parseRankColumns, rankColumnsOf, rankOrder, rankWordPattern } from "@/utils/rankColumns";
+
+describe("rankColumnsOf", () => {
+    it("keeps custom legacy DEV/IDEA names but not the old placeholders", () => {
+        const columns = rankColumnsOf({ dev_rank_name: '研究', idea_rank_name: '💡 アイデア（名前変更可能）' });
+        expect(columns.find(c => c.key === 'DEV')?.name).toBe('研究');
+        expect(columns.find(c => c.key === 'IDEA')?.name).toBe('アイデア');
+    });
+});
+
+describe("findRank", () => {
+    it("accepts keys, names and aliases in any width or case", () => {
+        expect(findRank('ｓ', DEFAULT_RANK_COLUMNS)).toBe('S');
+        expect(findRank('dev', DEFAULT_RANK_COLUMNS)).toBe('DEV');
+        expect(findRank('メモ', DEFAULT_RANK_COLUMNS)).toBe('IDEA');
+        expect(findRank('完了', DEFAULT_RANK_COLUMNS)).toBeNull();
+    });
+
+    it("matches the longest word first in the pattern", () => {
+        expect('DEV'.match(new RegExp(`^(?:${rankWordPattern(DEFAULT_RANK_COLUMNS)})`))?.[0]).toBe('DEV');
+    });
+});
+
+describe("rankOrder", () => {
+    it("follows the user's column order", () => {
+        const columns = [...DEFAULT_RANK_COLUMNS].reverse();
+        expect(rankOrder(columns).IDEA).toBe(0);
+        expect(rankOrder(columns).S).toBe(5);
+    });
+});
+
+describe("aiRanks", () => {
+    it("falls back to C, or the first allowed rank without it", () => {
+        expect(aiRanks(DEFAULT_RANK_COLUMNS).fallback).toBe('C');
+        const noC = DEFAULT_RANK_COLUMNS.map(c => ({ ...c, ai_assignable: c.key === 'B' || c.key === 'DEV' }));
+        expect(aiRanks(noC)).toEqual({ allowed: ['B', 'DEV'], fallback: 'B' });
+    });
+});
+
+describe("parseRankColumns", () => {
+    it("accepts the defaults", () => {
+        expect(parseRankColumns(DEFAULT_RANK_COLUMNS)).toEqual(DEFAULT_RANK_COLUMNS);
+    });
+
+    it("rejects a word that names two ranks or a status", () => {
+        const twice = DEFAULT_RANK_COLUMNS.map(c => c.key === 'C' ? { ...c, aliases: ['開発'] } : c);
+        expect(() => parseRankColumns(twice)).toThrow(RankColumnValidationError);
+        const status = DEFAULT_RANK_COLUMNS.map(c => c.key === 'C' ? { ...c, name: '保留' } : c);
+        expect(() => parseRankColumns(status)).toThrow(RankColumnValidationError);
+    });
+
+    it("requires every rank once", () => {
+        expect(() => parseRankColumns(DEFAULT_RANK_COLUMNS.slice(1))).toThrow(RankColumnValidationError);
+    });
+});
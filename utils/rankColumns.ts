@@ -0,0 +1,123 @@
+import { PRIORITIES, Priority, RankColumn, STATUSES, UserSettings } from "@/types";
+import { statusWords } from "@/utils/statuses";
+
+// Each user's rank columns: name, color, emoji, order, whether the AI may put tasks there, and
+// extra words LINE accepts for the rank ("3 開発", "一覧 アイデア"). The six keys themselves are
+// fixed because deadline escalation and reminders depend on what S and A mean.
+// Stored in user_settings.rank_columns; no server dependencies, so the dashboard uses it too.
+
+export class RankColumnValidationError extends Error {}
+
+const MAX_NAME_LENGTH = 30;
+const MAX_EMOJI_LENGTH = 8;
+const MAX_ALIASES = 10;
+const MAX_ALIAS_LENGTH = 20;
+// LINE reads these as statuses ("3 完了", "一覧 保留"), so no rank may be called this
+const STATUS_WORDS: string[] = [...STATUSES, ...statusWords()];
+
+export const DEFAULT_RANK_COLUMNS: RankColumn[] = [
+    { key: 'S', name: '重要+緊急', color: '#D32F2F', emoji: '🔥', ai_assignable: true, aliases: [] },
+    { key: 'A', name: '緊急のみ', color: '#F57C00', emoji: '⏰', ai_assignable: true, aliases: [] },
+    { key: 'B', name: '重要のみ', color: '#1976D2', emoji: '⭐', ai_assignable: true, aliases: [] },
+    { key: 'C', name: '低優先', color: '#388E3C', emoji: '🌱', ai_assignable: true, aliases: [] },
+    { key: 'DEV', name: '開発', color: '#7B1FA2', emoji: '🛠', ai_assignable: true, aliases: ['開発'] },
+    { key: 'IDEA', name: 'アイデア', color: '#C2185B', emoji: '💡', ai_assignable: true, aliases: ['アイデア', 'メモ'] },
+];
+
+// Names of DEV and IDEA from before columns were configurable, when they were the only renamable ones
+const LEGACY_DEFAULT_NAMES = ['自由設定（名前変更可能）', '💡 アイデア（名前変更可能）'];
+
+/** The user's columns in display order, falling back to the defaults with their old DEV/IDEA names. */
+export function rankColumnsOf(settings: Partial<Pick<UserSettings, 'rank_columns' | 'dev_rank_name' | 'idea_rank_name'>>): RankColumn[] {
+    if (settings.rank_columns) return settings.rank_columns;
+    const legacy: Partial<Record<Priority, string | undefined>> = { DEV: settings.dev_rank_name, IDEA: settings.idea_rank_name };
+    return DEFAULT_RANK_COLUMNS.map(column => {
+        const name = legacy[column.key];
+        return name && !LEGACY_DEFAULT_NAMES.includes(name) ? { ...column, name } : column;
+    });
+}
+
+/** "🔥 S: 重要+緊急" for S-C, "🛠 開発" for the columns without a letter grade. */
+export function rankTitle(column: RankColumn) {
+    const name = ['S', 'A', 'B', 'C'].includes(column.key) ? `${column.key}: ${column.name}` : column.name;
+    return column.emoji ? `${column.emoji} ${name}` : name;
+}
+
+/** Short form for buttons and replies, e.g. "S" or "🛠開発". */
+export function rankLabel(column: RankColumn) {
+    return ['S', 'A', 'B', 'C'].includes(column.key) ? column.key : `${column.emoji}${column.name}`;
+}
+
+export function rankColumn(columns: RankColumn[], key: Priority): RankColumn {
+    return columns.find(c => c.key === key) ?? DEFAULT_RANK_COLUMNS.find(c => c.key === key)!;
+}
+
+const normalizeWord = (word: string) => word.normalize('NFKC').trim().toUpperCase();
+
+/** The rank a word names: a key ("s", "ＤＥＶ"), a column name or one of its aliases. */
+export function findRank(word: string, columns: RankColumn[]): Priority | null {
+    const target = normalizeWord(word);
+    const column = columns.find(c => [c.key, c.name, ...c.aliases].some(w => normalizeWord(w) === target));
+    return column?.key ?? null;
+}
+
+/** Regex alternation of every word findRank accepts, longest first so "DEV" is not read as "D…". */
+export function rankWordPattern(columns: RankColumn[]) {
+    return columns
+        .flatMap(c => [c.key, c.name, ...c.aliases])
+        .sort((a, b) => b.length - a.length)
+        .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('|');
+}
+
+/** Display position of each rank, for sorting. */
+export function rankOrder(columns: RankColumn[]): Record<Priority, number> {
+    return Object.fromEntries(PRIORITIES.map(key => [key, columns.findIndex(c => c.key === key)])) as Record<Priority, number>;
+}
+
+/** Ranks the AI may assign, and the one it falls back to when it picks another: C if allowed, else the first allowed. */
+export function aiRanks(columns: RankColumn[]): { allowed: Priority[]; fallback: Priority } {
+    const allowed = columns.filter(c => c.ai_assignable).map(c => c.key);
+    return { allowed, fallback: allowed.includes('C') ? 'C' : allowed[0] ?? 'C' };
+}
+
+function validateColumn(raw: unknown): RankColumn {
+    const input = (raw ?? {}) as Record<string, unknown>;
+    if (!PRIORITIES.includes(input.key as Priority)) throw new RankColumnValidationError(`Invalid key: ${input.key}`);
+    const key = input.key as Priority;
+
+    if (typeof input.name !== 'string' || !input.name.trim()) throw new RankColumnValidationError(`${key}: name must be a non-empty string`);
+    if (input.name.trim().length > MAX_NAME_LENGTH) throw new RankColumnValidationError(`${key}: name must be at most ${MAX_NAME_LENGTH} characters`);
+    if (typeof input.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(input.color)) throw new RankColumnValidationError(`${key}: color must be "#rrggbb"`);
+    if (typeof input.emoji !== 'string' || [...input.emoji].length > MAX_EMOJI_LENGTH) throw new RankColumnValidationError(`${key}: emoji must be a short string`);
+    if (typeof input.ai_assignable !== 'boolean') throw new RankColumnValidationError(`${key}: ai_assignable must be a boolean`);
+    if (!Array.isArray(input.aliases) || input.aliases.length > MAX_ALIASES) throw new RankColumnValidationError(`${key}: aliases must be an array of at most ${MAX_ALIASES} words`);
+    const aliases = input.aliases.map(a => typeof a === 'string' ? a.trim() : '');
+    if (aliases.some(a => !a || a.length > MAX_ALIAS_LENGTH)) throw new RankColumnValidationError(`${key}: aliases must be non-empty and at most ${MAX_ALIAS_LENGTH} characters`);
+
+    return { key, name: input.name.trim(), color: input.color.toUpperCase(), emoji: input.emoji.trim(), ai_assignable: input.ai_assignable, aliases: [...new Set(aliases)] };
+}
+
+/**
+ * Validates a full column set: every rank exactly once, in display order, at least one the AI may use,
+ * and no word (key, name or alias) that means two ranks or a status.
+ */
+export function parseRankColumns(raw: unknown): RankColumn[] {
+    if (!Array.isArray(raw)) throw new RankColumnValidationError("rank columns must be an array");
+    const columns = raw.map(validateColumn);
+    if (columns.length !== PRIORITIES.length || PRIORITIES.some(key => !columns.some(c => c.key === key))) {
+        throw new RankColumnValidationError(`rank columns must contain each of ${PRIORITIES.join(', ')} exactly once`);
+    }
+    if (!columns.some(c => c.ai_assignable)) throw new RankColumnValidationError("at least one rank must be assignable by the AI");
+
+    const owners = new Map<string, Priority>();
+    for (const column of columns) {
+        for (const word of new Set([column.key, column.name, ...column.aliases].map(normalizeWord))) {
+            const owner = owners.get(word);
+            if (owner) throw new RankColumnValidationError(`"${word}" is used by both ${owner} and ${column.key}`);
+            if (STATUS_WORDS.includes(word)) throw new RankColumnValidationError(`"${word}" is a status`);
+            owners.set(word, column.key);
+        }
+    }
+    return columns;
+}
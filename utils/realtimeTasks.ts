@@ -0,0 +1,99 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/utils/supabaseClient';
+import { Task } from '@/types';
+import { withKnownStatus } from '@/utils/statuses';
+import { taskChannel, TASKS_DELETED_EVENT } from '@/utils/taskChannel';
+
+// Live updates for the dashboard: tasks added from LINE, reminders' escalations and edits made
+// on another device arrive as Supabase Realtime row changes and are merged into the open board.
+// The browser has no Supabase session of its own, so /api/realtime/token signs one for the
+// dashboard session and RLS on `tasks` limits the subscription to the user's own rows.
+// Deletes come as a broadcast from utils/tasks.ts on the same channel, which is private to the user.
+
+export type RealtimeTaskChange =
+    | { type: 'INSERT' | 'UPDATE'; task: Task }
+    | { type: 'DELETE'; id: string };
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
+
+interface Handlers {
+    onChange(change: RealtimeTaskChange): void;
+    onStatus(status: RealtimeStatus): void;
+    /** Called when the subscription comes back after a disconnect; changes in between were missed. */
+    onResync(): void;
+}
+
+// Ask for a new token this long before the current one expires
+const TOKEN_REFRESH_MARGIN_SEC = 60;
+
+/** Subscribes to the user's task rows. Returns a function that unsubscribes. */
+export function subscribeToTasks(userId: string, handlers: Handlers): () => void {
+    let channel: RealtimeChannel | null = null;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+    let wasLive = false;
+
+    // Resolves to false if realtime is not configured or the session has expired
+    const authorize = async (): Promise<boolean> => {
+        const res = await fetch('/api/realtime/token');
+        if (!res.ok) return false;
+        const { token, expiresIn } = await res.json() as { token: string; expiresIn: number };
+        if (closed) return false;
+        await supabase.realtime.setAuth(token);
+        refreshTimer = setTimeout(() => {
+            authorize().catch(err => console.error('Failed to refresh realtime token:', err));
+        }, Math.max(expiresIn - TOKEN_REFRESH_MARGIN_SEC, TOKEN_REFRESH_MARGIN_SEC) * 1000);
+        return true;
+    };
+
+    const start = async () => {
+        handlers.onStatus('connecting');
+        if (!await authorize().catch(() => false) || closed) {
+            handlers.onStatus('offline');
+            return;
+        }
+        const filter = `user_id=eq.${userId}`;
+        channel = supabase
+            .channel(taskChannel(userId), { config: { private: true } })
+            .on<Task>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'tasks', filter }, payload => {
+                handlers.onChange({ type: 'INSERT', task: withKnownStatus(payload.new) });
+            })
+            .on<Task>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'tasks', filter }, payload => {
+                handlers.onChange({ type: 'UPDATE', task: withKnownStatus(payload.new) });
+            })
+            // Not the DELETE row event: it cannot be filtered by user and would carry every user's deletes
+            .on('broadcast', { event: TASKS_DELETED_EVENT }, ({ payload }) => {
+                for (const id of (payload as { ids: string[] }).ids) handlers.onChange({ type: 'DELETE', id });
+            })
+            .subscribe(status => {
+                if (status === 'SUBSCRIBED') {
+                    if (wasLive) handlers.onResync();
+                    wasLive = true;
+                    handlers.onStatus('live');
+                } else {
+                    // The client rejoins on its own after errors and timeouts
+                    handlers.onStatus('offline');
+                }
+            });
+    };
+
+    start();
+    return () => {
+        closed = true;
+        clearTimeout(refreshTimer);
+        if (channel) supabase.removeChannel(channel);
+    };
+}
+
+/**
+ * Applies a row change to the board. Fields in `pending` belong to edits still on their way to
+ * the server and win over the incoming row, so a stale echo does not undo them; the echo of the
+ * edit itself, or a later change, brings the row up to date once the edit has landed.
+ */
+export function mergeTaskChange(tasks: Task[], change: RealtimeTaskChange, pending?: Partial<Task>): Task[] {
+    if (change.type === 'DELETE') return tasks.filter(t => t.id !== change.id);
+    const task = { ...change.task, ...pending };
+    return tasks.some(t => t.id === task.id)
+        ? tasks.map(t => t.id === task.id ? task : t)
+        : [task, ...tasks];
+}
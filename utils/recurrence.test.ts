@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { dueLevel, escalationTarget } from "@/utils/dueDate";
+import { firstDue, formatRecurrence, nextDue, nextOccurrence, parseRecurrence } from "@/utils/recurrence";
+
+describe("parseRecurrence", () => {
+    it("reads weekly days without counting 曜日 as Sunday", () => {
+        expect(parseRecurrence("毎週月曜日と木曜 週報")).toEqual({ rule: { type: "weekly", days: [1, 4] }, rest: "週報" });
+    });
+
+    it("reads month ends and business days", () => {
+        expect(parseRecurrence("毎月末 請求書")?.rule).toEqual({ type: "monthly", day: 31 });
+        expect(parseRecurrence("毎月最終営業日に経費精算")?.rule).toEqual({ type: "monthly_last_business_day" });
+        expect(parseRecurrence("毎月１５日 支払い")?.rule).toEqual({ type: "monthly", day: 15 });
+    });
+
+    it("ignores a bare deadline", () => {
+        expect(parseRecurrence("月末までに資料作成")).toBeNull();
+    });
+});
+
+describe("formatRecurrence", () => {
+    it("round-trips the parsed phrase", () => {
+        expect(formatRecurrence({ type: "weekly", days: [4, 1] })).toBe("毎週月・木");
+        expect(formatRecurrence({ type: "monthly", day: 31 })).toBe("毎月末");
+    });
+});
+
+describe("nextOccurrence", () => {
+    it("clamps the 31st to the last day of a short month", () => {
+        // 2026-04-10 12:00 JST
+        expect(nextOccurrence({ type: "monthly", day: 31 }, new Date("2026-04-10T03:00:00Z")).toISOString())
+            .toBe("2026-04-29T15:00:00.000Z");
+    });
+
+    it("skips weekends for the last business day", () => {
+        // May 2026 ends on a Sunday, so the last business day is Friday the 29th
+        expect(nextOccurrence({ type: "monthly_last_business_day" }, new Date("2026-05-01T00:00:00Z")).toISOString())
+            .toBe("2026-05-28T15:00:00.000Z");
+    });
+});
+
+describe("nextDue", () => {
+    it("keeps the time of day of the previous occurrence", () => {
+        // Due Monday 2026-03-02 10:00 JST, completed on time
+        expect(nextDue({ type: "weekly", days: [1] }, "2026-03-02T01:00:00Z", new Date("2026-03-01T00:00:00Z")))
+            .toBe("2026-03-09T01:00:00.000Z");
+    });
+
+    it("counts from now when completed late", () => {
+        expect(nextDue({ type: "daily" }, "2026-03-02T01:00:00Z", new Date("2026-03-05T03:00:00Z")))
+            .toBe("2026-03-06T01:00:00.000Z");
+    });
+});
+
+describe("firstDue", () => {
+    // Wednesday 2026-03-04 10:00 JST
+    const now = new Date("2026-03-04T01:00:00Z");
+
+    it("is the end of today when the rule occurs today", () => {
+        expect(firstDue({ type: "daily" }, now)).toBe("2026-03-04T14:59:00.000Z");
+        expect(firstDue({ type: "weekly", days: [3] }, now)).toBe("2026-03-04T14:59:00.000Z");
+    });
+
+    it("is the end of the next matching day otherwise", () => {
+        expect(firstDue({ type: "weekly", days: [1] }, now)).toBe("2026-03-09T14:59:00.000Z");
+    });
+
+    it("moves on once today is over", () => {
+        expect(firstDue({ type: "daily" }, new Date("2026-03-04T14:59:30Z"))).toBe("2026-03-05T14:59:00.000Z");
+    });
+
+    it("does not make a new recurring task overdue or escalate it at once", () => {
+        const due_at = firstDue({ type: "weekly", days: [1] }, now);
+        expect(dueLevel(due_at, now)).toBe('later');
+        expect(escalationTarget({ priority: 'C', due_at }, now)).toBeNull();
+        expect(dueLevel(firstDue({ type: "daily" }, now), now)).not.toBe('overdue');
+    });
+
+    it("is followed by date-only occurrences", () => {
+        expect(nextDue({ type: "daily" }, firstDue({ type: "daily" }, now), now)).toBe("2026-03-05T14:59:00.000Z");
+        expect(nextDue({ type: "daily" }, null, now)).toBe("2026-03-05T14:59:00.000Z");
+    });
+});
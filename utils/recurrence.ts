@@ -0,0 +1,120 @@
+import { Recurrence } from "@/types";
+import { endOfDay } from "@/utils/dueDate";
+
+// Recurring tasks (weekly reports, monthly invoices). A task carries its rule in `recurrence`;
+// completing it creates the next occurrence with the next due date (see utils/tasks.ts).
+// Dates are computed in JST like everywhere else. Business days are Monday to Friday;
+// public holidays are not taken into account. No server dependencies.
+
+const DAY = 24 * 60 * 60 * 1000;
+// Japan has no daylight saving time, so JST is always UTC+9
+const JST_OFFSET = 9 * 60 * 60 * 1000;
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+export function isRecurrence(value: unknown): value is Recurrence {
+    if (!value || typeof value !== 'object') return false;
+    const rule = value as Record<string, unknown>;
+    switch (rule.type) {
+        case 'daily':
+        case 'weekdays':
+        case 'monthly_last_business_day':
+            return true;
+        case 'weekly':
+            return Array.isArray(rule.days) && rule.days.length > 0 && rule.days.every(d => Number.isInteger(d) && d >= 0 && d <= 6);
+        case 'monthly':
+            return Number.isInteger(rule.day) && (rule.day as number) >= 1 && (rule.day as number) <= 31;
+        default:
+            return false;
+    }
+}
+
+/** "毎週月・木", "毎月15日", ... */
+export function formatRecurrence(rule: Recurrence) {
+    switch (rule.type) {
+        case 'daily': return '毎日';
+        case 'weekdays': return '平日毎日';
+        case 'weekly': return `毎週${[...rule.days].sort().map(d => WEEKDAYS[d]).join('・')}`;
+        case 'monthly': return rule.day >= 31 ? '毎月末' : `毎月${rule.day}日`;
+        case 'monthly_last_business_day': return '毎月最終営業日';
+    }
+}
+
+// Only explicit 毎〜 phrases: a bare 月末 or 平日 is usually a deadline or a remark, not a schedule
+const RECURRENCE_PHRASE = /毎日|平日毎日|毎平日|毎営業日|毎週((?:[月火水木金土日](?:曜日|曜)?[・、,と]?)+)|毎月(?:末|最終)営業日|毎月末|毎月([0-9０-９]{1,2})日/;
+
+/**
+ * Finds a recurrence phrase such as 毎週月曜 or 毎月末営業日 in `text`.
+ * Returns the rule and the text without the phrase, or null if there is none.
+ */
+export function parseRecurrence(text: string): { rule: Recurrence; rest: string } | null {
+    const match = text.match(RECURRENCE_PHRASE);
+    if (!match) return null;
+    const [phrase, weekly, monthDay] = match;
+
+    let rule: Recurrence;
+    if (phrase === '毎日') rule = { type: 'daily' };
+    else if (phrase === '平日毎日' || phrase === '毎平日' || phrase === '毎営業日') rule = { type: 'weekdays' };
+    // "月曜日" is one day, so the 日 of 曜日 must not count as Sunday
+    else if (weekly) rule = { type: 'weekly', days: [...new Set([...weekly.matchAll(/([月火水木金土日])(?:曜日|曜)?/g)].map(m => WEEKDAYS.indexOf(m[1])))] };
+    else if (phrase.endsWith('営業日')) rule = { type: 'monthly_last_business_day' };
+    else if (phrase === '毎月末') rule = { type: 'monthly', day: 31 };
+    else rule = { type: 'monthly', day: Number(monthDay.normalize('NFKC')) };
+
+    if (!isRecurrence(rule)) return null;
+    const rest = (text.slice(0, match.index) + text.slice(match.index! + phrase.length))
+        .replace(/^[\sにの、,]+|[\s、,]+$/g, '')
+        .replace(/\s{2,}/g, ' ');
+    return { rule, rest };
+}
+
+// A calendar day in JST, as UTC fields of a shifted Date
+const jstDay = (date: Date) => new Date(Math.floor((date.getTime() + JST_OFFSET) / DAY) * DAY);
+const daysInMonth = (day: Date) => new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+const isBusinessDay = (day: Date) => day.getUTCDay() !== 0 && day.getUTCDay() !== 6;
+
+function isLastBusinessDay(day: Date) {
+    let last = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0));
+    while (!isBusinessDay(last)) last = new Date(last.getTime() - DAY);
+    return last.getUTCDate() === day.getUTCDate();
+}
+
+function occursOn(rule: Recurrence, day: Date) {
+    switch (rule.type) {
+        case 'daily': return true;
+        case 'weekdays': return isBusinessDay(day);
+        case 'weekly': return rule.days.includes(day.getUTCDay());
+        // The 31st of a 30-day month is its last day
+        case 'monthly': return day.getUTCDate() === Math.min(rule.day, daysInMonth(day));
+        case 'monthly_last_business_day': return isLastBusinessDay(day);
+    }
+}
+
+/** Start (00:00 JST) of the first day after `after`'s JST day on which the rule occurs. */
+export function nextOccurrence(rule: Recurrence, after: Date): Date {
+    let day = jstDay(after);
+    do {
+        day = new Date(day.getTime() + DAY);
+    } while (!occursOn(rule, day));
+    return new Date(day.getTime() - JST_OFFSET);
+}
+
+/**
+ * Due date of a new recurring task without one: the end of its first occurrence day (a date-only deadline),
+ * today included unless today is already over, so the task is not overdue as soon as it is created.
+ */
+export function firstDue(rule: Recurrence, now = new Date()) {
+    const due = endOfDay(nextOccurrence(rule, new Date(now.getTime() - DAY)).toISOString());
+    return new Date(due) > now ? due : endOfDay(nextOccurrence(rule, now).toISOString());
+}
+
+/**
+ * Due date of the occurrence after the one due at `dueAt`, keeping its time of day (date only without one).
+ * Counts from now if that is later, so finishing late does not create already overdue tasks.
+ */
+export function nextDue(rule: Recurrence, dueAt: string | null, now = new Date()) {
+    const previous = dueAt ? new Date(dueAt) : null;
+    const after = previous && previous > now ? previous : now;
+    if (!previous) return endOfDay(nextOccurrence(rule, after).toISOString());
+    const timeOfDay = previous.getTime() - (jstDay(previous).getTime() - JST_OFFSET);
+    return new Date(nextOccurrence(rule, after).getTime() + timeOfDay).toISOString();
+}
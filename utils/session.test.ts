@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+
+const settings = vi.hoisted(() => ({ sessionVersion: 0 }));
+
+vi.mock("@/utils/supabaseServer", () => {
+    // user_settings with the one row the session code reads and bumps
+    const builder: Record<string, unknown> = {};
+    for (const method of ['from', 'select', 'eq']) builder[method] = () => builder;
+    builder.maybeSingle = async () => ({ data: { session_version: settings.sessionVersion }, error: null });
+    builder.upsert = async (row: { session_version: number }) => {
+        settings.sessionVersion = row.session_version;
+        return { error: null };
+    };
+    return { supabaseAdmin: builder };
+});
+
+// The secret is read when the module loads
+async function load(secret: string) {
+    vi.resetModules();
+    vi.stubEnv("DASHBOARD_TOKEN_SECRET", secret);
+    return import("@/utils/session");
+}
+
+const linkToken = (url: string) => new URL(url).searchParams.get("t")!;
+const withCookie = (token: string) => new NextRequest("https://example.com/api/tasks", { headers: { cookie: `tm_session=${token}` } });
+
+describe("dashboard sessions", () => {
+    beforeEach(() => {
+        settings.sessionVersion = 0;
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.useRealTimers();
+    });
+
+    it("exchange a link token for a session of the same user", async () => {
+        const session = await load("secret");
+        const exchanged = await session.exchangeLinkToken(linkToken(await session.createDashboardUrl("u1")));
+
+        expect(exchanged?.userId).toBe("u1");
+        expect(await session.getSessionUserId(withCookie(exchanged!.sessionToken))).toBe("u1");
+    });
+
+    it("reject tampered tokens and tokens of the other kind", async () => {
+        const session = await load("secret");
+        const link = linkToken(await session.createDashboardUrl("u1"));
+        const [body, signature] = link.split(".");
+        const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, "base64url").toString()), sub: "u2" })).toString("base64url");
+
+        expect(await session.exchangeLinkToken(`${forged}.${signature}`)).toBeNull();
+        expect(await session.getSessionUserId(withCookie(link))).toBeNull();
+
+        const { sessionToken } = (await session.exchangeLinkToken(link))!;
+        expect(await session.exchangeLinkToken(sessionToken)).toBeNull();
+    });
+
+    it("reject a token signed with another secret", async () => {
+        const other = await load("other");
+        const link = linkToken(await other.createDashboardUrl("u1"));
+        const session = await load("secret");
+        expect(await session.exchangeLinkToken(link)).toBeNull();
+    });
+
+    it("expire link tokens after their TTL", async () => {
+        vi.useFakeTimers({ now: new Date("2026-03-10T00:00:00Z") });
+        const session = await load("secret");
+        const link = linkToken(await session.createDashboardUrl("u1"));
+
+        vi.setSystemTime(Date.now() + (session.LINK_TOKEN_TTL_SEC + 1) * 1000);
+        expect(await session.exchangeLinkToken(link)).toBeNull();
+    });
+
+    it("stop working once the user's sessions are revoked", async () => {
+        const session = await load("secret");
+        const link = linkToken(await session.createDashboardUrl("u1"));
+        const { sessionToken } = (await session.exchangeLinkToken(link))!;
+
+        await session.revokeSessions("u1");
+
+        expect(await session.getSessionUserId(withCookie(sessionToken))).toBeNull();
+        expect(await session.exchangeLinkToken(link)).toBeNull();
+        expect(await session.exchangeLinkToken(linkToken(await session.createDashboardUrl("u1")))).not.toBeNull();
+    });
+
+    it("accept nothing without a secret", async () => {
+        const signed = await load("secret");
+        const link = linkToken(await signed.createDashboardUrl("u1"));
+        const session = await load("");
+
+        expect(await session.exchangeLinkToken(link)).toBeNull();
+        await expect(session.createDashboardUrl("u1")).rejects.toThrow("DASHBOARD_TOKEN_SECRET");
+    });
+});
@@ -0,0 +1,137 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import { supabaseAdmin } from "@/utils/supabaseServer";
+
+// Dashboard authentication.
+// LINE hands out a short-lived signed link token (?t=...), which the dashboard
+// exchanges once for a longer-lived session cookie. Both carry the user's
+// `session_version` from user_settings; bumping it revokes every link and session.
+
+const TOKEN_SECRET = process.env.DASHBOARD_TOKEN_SECRET || "";
+const DASHBOARD_BASE_URL = process.env.DASHBOARD_URL || "https://task-auto-sorting-app.vercel.app";
+
+export const SESSION_COOKIE = "tm_session";
+export const LINK_TOKEN_TTL_SEC = 15 * 60;
+export const SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+export const REALTIME_TOKEN_TTL_SEC = 15 * 60;
+
+const REALTIME_JWT_SECRET = process.env.SUPABASE_JWT_SECRET || "";
+
+type TokenKind = 'link' | 'session';
+
+interface TokenPayload {
+    sub: string;
+    kind: TokenKind;
+    ver: number;
+    exp: number;
+    jti: string;
+}
+
+function sign(data: string) {
+    if (!TOKEN_SECRET) throw new Error("DASHBOARD_TOKEN_SECRET is not set");
+    return createHmac("sha256", TOKEN_SECRET).update(data).digest("base64url");
+}
+
+function encodeToken(payload: TokenPayload) {
+    const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return `${body}.${sign(body)}`;
+}
+
+function decodeToken(token: string, kind: TokenKind): TokenPayload | null {
+    if (!TOKEN_SECRET) return null;
+
+    const [body, signature] = token.split(".");
+    if (!body || !signature) return null;
+
+    const expected = Buffer.from(sign(body));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(body, "base64url").toString()) as TokenPayload;
+        if (payload.kind !== kind || !payload.sub) return null;
+        if (payload.exp * 1000 < Date.now()) return null;
+        return payload;
+    } catch {
+        return null;
+    }
+}
+
+async function getSessionVersion(userId: string): Promise<number> {
+    const { data } = await supabaseAdmin
+        .from('user_settings')
+        .select('session_version')
+        .eq('user_id', userId)
+        .maybeSingle();
+    return data?.session_version ?? 0;
+}
+
+async function issueToken(userId: string, kind: TokenKind, ttlSec: number) {
+    const ver = await getSessionVersion(userId);
+    return encodeToken({
+        sub: userId,
+        kind,
+        ver,
+        exp: Math.floor(Date.now() / 1000) + ttlSec,
+        jti: randomUUID(),
+    });
+}
+
+async function verifyToken(token: string, kind: TokenKind): Promise<string | null> {
+    const payload = decodeToken(token, kind);
+    if (!payload) return null;
+    const ver = await getSessionVersion(payload.sub);
+    return payload.ver === ver ? payload.sub : null;
+}
+
+/** Builds a dashboard URL carrying a fresh link token for `userId`. */
+export async function createDashboardUrl(userId: string) {
+    const token = await issueToken(userId, 'link', LINK_TOKEN_TTL_SEC);
+    return `${DASHBOARD_BASE_URL}?t=${encodeURIComponent(token)}`;
+}
+
+/** Exchanges a link token for a session token. Returns null if the link is invalid, expired or revoked. */
+export async function exchangeLinkToken(linkToken: string) {
+    const userId = await verifyToken(linkToken, 'link');
+    if (!userId) return null;
+    const sessionToken = await issueToken(userId, 'session', SESSION_TTL_SEC);
+    return { userId, sessionToken };
+}
+
+/** Resolves the LINE user ID of the request's session cookie, or null. */
+export async function getSessionUserId(req: NextRequest) {
+    const token = req.cookies.get(SESSION_COOKIE)?.value;
+    if (!token) return null;
+    return verifyToken(token, 'session');
+}
+
+/** Invalidates every link token and session issued to `userId` so far. */
+export async function revokeSessions(userId: string) {
+    const ver = await getSessionVersion(userId);
+    const { error } = await supabaseAdmin
+        .from('user_settings')
+        .upsert({ user_id: userId, session_version: ver + 1, updated_at: new Date().toISOString() });
+    if (error) throw error;
+}
+
+/** Like getSessionUserId, but only for the admin account (ADMIN_LINE_ID). */
+export async function getAdminSessionUserId(req: NextRequest) {
+    const adminId = process.env.ADMIN_LINE_ID;
+    const userId = await getSessionUserId(req);
+    return adminId && userId === adminId ? userId : null;
+}
+
+/**
+ * A short-lived Supabase JWT for the dashboard's realtime subscription. Its `sub` is the LINE user ID,
+ * which the RLS policy on `tasks` compares with `user_id`. Returns null if SUPABASE_JWT_SECRET is not set.
+ */
+export function createRealtimeToken(userId: string) {
+    if (!REALTIME_JWT_SECRET) return null;
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString("base64url");
+    const body = [
+        encode({ alg: "HS256", typ: "JWT" }),
+        encode({ sub: userId, role: "authenticated", aud: "authenticated", iat: now, exp: now + REALTIME_TOKEN_TTL_SEC }),
+    ].join(".");
+    return `${body}.${createHmac("sha256", REALTIME_JWT_SECRET).update(body).digest("base64url")}`;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { Status, STATUSES } from "@/types";
+import { STATUS_DEFINITIONS, canTransition, isOnBoard, isOpen, statusFromWord, statusWords, toStatus, withKnownStatus } from "@/utils/statuses";
+
+describe("statuses", () => {
+    it("only lets trashed tasks be restored", () => {
+        expect(canTransition('削除済み', '未処理')).toBe(true);
+        expect(canTransition('削除済み', '完了')).toBe(false);
+        expect(canTransition('削除済み', '削除済み')).toBe(true);
+    });
+
+    it("keeps parked tasks open but off the board", () => {
+        expect(isOpen('保留')).toBe(true);
+        expect(isOnBoard('保留')).toBe(false);
+        expect(isOpen('完了')).toBe(false);
+    });
+
+    it("maps every LINE word back to one status", () => {
+        for (const word of statusWords()) {
+            const status = statusFromWord(word)!;
+            expect(STATUS_DEFINITIONS[status].aliases).toContain(word);
+        }
+        expect(statusFromWord('戻す')).toBe('未処理');
+        expect(statusFromWord('削除')).toBe('削除済み');
+    });
+
+    it("only moves to known statuses", () => {
+        for (const status of STATUSES) {
+            for (const next of STATUS_DEFINITIONS[status].next) expect(STATUSES).toContain(next);
+        }
+    });
+
+    it("reads retired and unknown statuses as ones it knows", () => {
+        expect(toStatus('戻す')).toBe('未処理');
+        expect(toStatus('開発中')).toBe('進行中');
+        expect(toStatus('constructor')).toBe('未処理');
+        expect(toStatus(null)).toBe('未処理');
+        const row = { id: 'a', status: '保留' as const };
+        expect(withKnownStatus(row)).toBe(row);
+        expect(withKnownStatus({ id: 'b', status: '開発中' as Status })).toEqual({ id: 'b', status: '進行中' });
+    });
+});
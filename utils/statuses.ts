@@ -0,0 +1,63 @@
+import { Status, STATUSES } from "@/types";
+
+// What each status means and how it is shown and addressed: the dashboard columns and drawers,
+// the LINE list and commands, reminders and the write path in utils/tasks.ts all read it from here.
+// No server dependencies, so the dashboard uses it too.
+
+export interface StatusDefinition {
+    // Short name for buttons and drop zones
+    label: string;
+    // Words LINE commands accept for the status ("3 削除", "戻す 2")
+    aliases: string[];
+    icon: string;
+    // Done or trashed: off the board, out of the LINE list, duplicate checks and reminders
+    archived: boolean;
+    // Still open but set aside: kept in a drawer instead of a rank column, left out of the morning digest
+    parked: boolean;
+    // Heading of the dashboard drawer that lists the status, if it has one
+    drawer: string | null;
+    // Statuses a task may be moved to from this one
+    next: Status[];
+}
+
+export const STATUS_DEFINITIONS: Record<Status, StatusDefinition> = {
+    '未処理': { label: '未処理', aliases: ['戻す'], icon: '', archived: false, parked: false, drawer: null, next: ['進行中', '完了', '保留', '静観', '削除済み'] },
+    '進行中': { label: '進行', aliases: ['進行中'], icon: '🏃', archived: false, parked: false, drawer: null, next: ['未処理', '完了', '保留', '静観', '削除済み'] },
+    '完了': { label: '完了', aliases: ['完了'], icon: '✅', archived: true, parked: false, drawer: 'DONE', next: ['未処理', '進行中', '削除済み'] },
+    '保留': { label: '保留', aliases: ['保留'], icon: '⏸️', archived: false, parked: true, drawer: 'PENDING', next: ['未処理', '進行中', '完了', '静観', '削除済み'] },
+    '静観': { label: '静観', aliases: ['静観'], icon: '👀', archived: false, parked: true, drawer: 'WATCH', next: ['未処理', '進行中', '完了', '保留', '削除済み'] },
+    // Trashed tasks can only be restored
+    '削除済み': { label: '削除', aliases: ['削除'], icon: '🗑️', archived: true, parked: false, drawer: 'TRASH', next: ['未処理'] },
+};
+
+export const isStatus = (value: unknown): value is Status => STATUSES.includes(value as Status);
+
+// Statuses that were dropped, for rows written before supabase/migrations rewrote them
+const RETIRED_STATUSES = new Map<string, Status>([['戻す', '未処理'], ['開発中', '進行中']]);
+
+/** A status read from the database: a retired one becomes its replacement, anything else unknown 未処理. */
+export const toStatus = (value: unknown): Status =>
+    isStatus(value) ? value : RETIRED_STATUSES.get(value as string) ?? '未処理';
+
+/** `row` with a status the app knows, so lookups in STATUS_DEFINITIONS never miss. */
+export const withKnownStatus = <T extends { status: Status }>(row: T): T =>
+    isStatus(row.status) ? row : { ...row, status: toStatus(row.status) };
+
+/** Not done or trashed: listed in LINE, including the parked ones. */
+export const isOpen = (status: Status) => !STATUS_DEFINITIONS[status].archived;
+
+/** Shown in a rank column on the dashboard. */
+export const isOnBoard = (status: Status) => !STATUS_DEFINITIONS[status].archived && !STATUS_DEFINITIONS[status].parked;
+
+/** Setting the status a task already has is always allowed. */
+export const canTransition = (from: Status, to: Status) => from === to || STATUS_DEFINITIONS[from].next.includes(to);
+
+/** Every LINE word for a status, longest first for use in a regex alternation. */
+export function statusWords(): string[] {
+    return STATUSES.flatMap(status => STATUS_DEFINITIONS[status].aliases).sort((a, b) => b.length - a.length);
+}
+
+/** The status a LINE word means, e.g. 削除 → 削除済み. */
+export function statusFromWord(word: string): Status | null {
+    return STATUSES.find(status => STATUS_DEFINITIONS[status].aliases.includes(word)) ?? null;
+}
@@ -0,0 +1,28 @@
+import { Task } from "@/types";
+import { compareTasks } from "@/utils/taskOrder";
+
+// Subtasks are ordinary rows with `parent_id` set. They never show up as cards or list entries
+// of their own; the dashboard and LINE show them as a checklist under the parent ("3-2").
+
+export const MAX_SUBTASKS = 20;
+
+export const isTopLevel = (task: Task) => !task.parent_id;
+
+/** The parent's checklist items in display order, without trashed ones. */
+export function subtasksOf(tasks: Task[], parentId: string): Task[] {
+    return tasks.filter(t => t.parent_id === parentId && t.status !== '削除済み').sort(compareTasks);
+}
+
+export function subtaskProgress(subtasks: Task[]) {
+    return { done: subtasks.filter(t => t.status === '完了').length, total: subtasks.length };
+}
+
+/** Non-empty, trimmed strings from an untrusted `subtasks` value, capped at MAX_SUBTASKS. */
+export function toSubtaskTitles(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value
+        .filter((v): v is string => typeof v === 'string')
+        .map(v => v.trim())
+        .filter(v => v)
+        .slice(0, MAX_SUBTASKS);
+}
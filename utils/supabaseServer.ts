@@ -0,0 +1,11 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Server-only client. Uses the service role key so that API routes can enforce
+// ownership themselves; the anon key in utils/supabaseClient.ts is for the browser.
+const envUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseUrl = (envUrl && envUrl.startsWith('http')) ? envUrl : 'https://placeholder.supabase.co';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'dummy-key';
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false },
+})
@@ -0,0 +1,8 @@
+// The dashboard's Realtime channel, shared by the server that broadcasts on it and the browser that joins it.
+// It is private: the policy on realtime.messages (supabase/migrations) lets only the user whose token
+// `sub` is in the topic join it, so what is sent here reaches no one else.
+
+export const taskChannel = (userId: string) => `tasks:${userId}`;
+
+// Broadcast with { ids } when tasks are deleted for good; Realtime cannot scope DELETE row events to a user
+export const TASKS_DELETED_EVENT = 'tasks_deleted';
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { classifyLine, classifyTasks } from "@/utils/taskClassifier";
+import { extractTasks } from "@/utils/taskExtraction";
+
+describe("classifyLine", () => {
+    it("ranks by the first matching keyword group", () => {
+        expect(classifyLine("本番サーバー障害の対応")).toMatchObject({ priority: 'S', category: 'トラブル' });
+        expect(classifyLine("新機能のアイデア")).toMatchObject({ priority: 'IDEA', category: 'アイデア' });
+        expect(classifyLine("明日までに見積もり")).toMatchObject({ priority: 'A', category: '' });
+        expect(classifyLine("ログイン画面のバグ修正")).toMatchObject({ priority: 'DEV', category: '開発' });
+        expect(classifyLine("定例ミーティング")).toMatchObject({ priority: 'B', category: '会議' });
+        expect(classifyLine("提案資料の準備")).toMatchObject({ priority: 'B', category: '' });
+        expect(classifyLine("牛乳を買う")).toMatchObject({ priority: 'C', category: '' });
+    });
+
+    it("makes an important deadline S", () => {
+        expect(classifyLine("重要 明日の締め切り").priority).toBe('S');
+    });
+
+    it("takes the category from a leading 〇〇PJ or 【〇〇】", () => {
+        expect(classifyLine("A社PJ 見積もり").category).toBe('A社PJ');
+        expect(classifyLine("【採用】面談の日程調整").category).toBe('採用');
+    });
+
+    it("splits off a recurrence", () => {
+        expect(classifyLine("毎週月曜 週報提出")).toMatchObject({ title: '週報提出', recurrence: { type: 'weekly', days: [1] } });
+    });
+});
+
+describe("classifyTasks", () => {
+    it("makes one task per line and nests bulleted lines as subtasks", () => {
+        const tasks = classifyTasks("資料作成\n- 構成を決める\n  図を描く\n\n牛乳を買う");
+        expect(tasks.map(t => [t.title, t.subtasks])).toEqual([['資料作成', ['構成を決める', '図を描く']], ['牛乳を買う', []]]);
+    });
+
+    it("keeps a numbered list without a heading as separate tasks", () => {
+        expect(classifyTasks("1. 牛乳を買う\n2) パンを買う").map(t => t.title)).toEqual(['牛乳を買う', 'パンを買う']);
+    });
+});
+
+describe("the fallback for AI extraction", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("classifies the text when the model fails", async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failing = { name: 'broken', extract: async () => { throw new Error("503"); } };
+        expect(await extractTasks("【採用】面談の準備\n- 質問リスト", undefined, failing)).toEqual([
+            { title: '【採用】面談の準備', category: '採用', priority: 'B', due_at: null, subtasks: ['質問リスト'], recurrence: null },
+        ]);
+    });
+});
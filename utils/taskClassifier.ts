@@ -0,0 +1,82 @@
+import { Priority, Recurrence } from "@/types";
+import { parseRecurrence } from "@/utils/recurrence";
+
+// Offline task classifier: keyword dictionaries instead of a model.
+// Used when AI extraction fails or times out (see utils/taskExtraction.ts) and by the
+// dashboard when the analyze API is unreachable. It has no server dependencies.
+
+export interface ClassifiedTask {
+    title: string;
+    category: string;
+    priority: Priority;
+    recurrence: Recurrence | null;
+    subtasks: string[];
+}
+
+interface Rule {
+    priority: Priority;
+    category: string;
+    pattern: RegExp;
+}
+
+// Checked in order; the first match wins
+const rules: Rule[] = [
+    { priority: 'S', category: 'トラブル', pattern: /障害|トラブル|緊急|至急|クレーム|炎上|ダウン|復旧|インシデント/ },
+    { priority: 'IDEA', category: 'アイデア', pattern: /アイデア|アイディア|メモ|思いつき|ネタ|いつか|かも$/ },
+    { priority: 'A', category: '', pattern: /締切|締め切り|〆切|期限|今日中|本日中|今日|本日|明日|ASAP/i },
+    { priority: 'DEV', category: '開発', pattern: /実装|開発|バグ|デプロイ|リリース|リファクタ|コード|コーディング|API|DB|SQL|PR|プルリク|テスト/ },
+    { priority: 'B', category: '会議', pattern: /会議|打ち合わせ|打合せ|ミーティング|MTG|面談|商談|定例/i },
+    { priority: 'B', category: '', pattern: /重要|大事|計画|企画|準備|資料|提案|戦略|検討/ },
+];
+
+// Urgent and important at the same time is S
+const important = /重要|大事/;
+
+/** "〇〇PJ ..." or "【〇〇】..." → 〇〇PJ / 〇〇 */
+function guessCategory(line: string): string | null {
+    const bracket = line.match(/^【(.+?)】/);
+    if (bracket) return bracket[1];
+    const project = line.match(/^(\S+?PJ)(?:\s|$)/i);
+    return project ? project[1] : null;
+}
+
+export function classifyLine(line: string): ClassifiedTask {
+    // "毎週月曜 週報提出" → 週報提出, every Monday
+    const recurring = parseRecurrence(line.trim());
+    const title = recurring?.rest || line.trim();
+    const rule = rules.find(r => r.pattern.test(title));
+    const priority = rule?.priority === 'A' && important.test(title) ? 'S' : rule?.priority ?? 'C';
+    return {
+        title,
+        category: guessCategory(title) ?? rule?.category ?? '',
+        priority,
+        recurrence: recurring?.rule ?? null,
+        subtasks: [],
+    };
+}
+
+const BULLET = /^\s*(?:[-・*•]|\d+[.)．、])\s*/;
+
+/**
+ * One task per non-empty line, with list bullets and numbering stripped.
+ * Indented or bulleted lines below a plain line become that line's subtasks.
+ */
+export function classifyTasks(text: string): ClassifiedTask[] {
+    const tasks: ClassifiedTask[] = [];
+    let parent: ClassifiedTask | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+        const title = line.replace(BULLET, '').trim();
+        if (!title) continue;
+
+        const nested = /^\s/.test(line) || BULLET.test(line);
+        if (nested && parent) {
+            parent.subtasks.push(title);
+            continue;
+        }
+        const task = classifyLine(title);
+        tasks.push(task);
+        parent = nested ? null : task;
+    }
+    return tasks;
+}
@@ -0,0 +1,34 @@
+import { TaskEvent, TaskEventSource } from "@/types";
+import { formatDue } from "@/utils/dueDate";
+
+// Display helpers for the activity log, shared by the dashboard history and the /dev timeline.
+
+export const sourceLabels: Record<TaskEventSource, string> = {
+    'LINE': 'LINE',
+    'dashboard': '画面',
+    'AI': 'AI',
+    'cron': '自動',
+};
+
+const show = (type: TaskEvent['type'], value: string | null) => {
+    if (value === null) return 'なし';
+    return type === 'due_at' ? formatDue(value) : value;
+};
+
+export function describeEvent(event: TaskEvent) {
+    switch (event.type) {
+        case 'created': return `作成「${event.to_value}」`;
+        case 'deleted': return `完全削除「${event.from_value}」`;
+        case 'title': return `タイトル「${event.from_value}」→「${event.to_value}」`;
+        case 'priority': return `ランク ${event.from_value} → ${event.to_value}`;
+        case 'status': return `状態 ${event.from_value} → ${event.to_value}`;
+        case 'due_at': return `期日 ${show(event.type, event.from_value)} → ${show(event.type, event.to_value)}`;
+        case 'notes': return event.to_value ? 'メモを更新' : 'メモを削除';
+    }
+}
+
+/** "3/15 17:04" in the viewer's local time. */
+export function formatEventTime(createdAt: string) {
+    const d = new Date(createdAt);
+    return `${d.getMonth() + 1}/${d.getDate()} ${d.getHours().toString().padStart(2, '0')}:${d.getMinutes().toString().padStart(2, '0')}`;
+}
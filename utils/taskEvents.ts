@@ -0,0 +1,61 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { Task, TaskEvent, TaskEventSource, TaskEventType } from "@/types";
+
+// Append-only activity log (`task_events`). Written by utils/tasks.ts on every change,
+// never updated or deleted, so it survives even when the task itself is purged.
+
+type NewTaskEvent = Omit<TaskEvent, 'id' | 'created_at'>;
+
+const TRACKED_FIELDS: (TaskEventType & keyof Task)[] = ['title', 'priority', 'status', 'due_at', 'notes'];
+
+export function createdEvent(task: Task, source: TaskEventSource): NewTaskEvent {
+    return { task_id: task.id, user_id: task.user_id, type: 'created', from_value: null, to_value: task.title, source };
+}
+
+export function deletedEvent(task: Task, source: TaskEventSource): NewTaskEvent {
+    return { task_id: task.id, user_id: task.user_id, type: 'deleted', from_value: task.title, to_value: null, source };
+}
+
+/** One event per tracked field whose value differs between `before` and `after`. */
+export function diffEvents(before: Task, after: Task, source: TaskEventSource): NewTaskEvent[] {
+    return TRACKED_FIELDS
+        .filter(field => before[field] !== after[field])
+        .map(field => ({
+            task_id: after.id,
+            user_id: after.user_id,
+            type: field,
+            from_value: before[field],
+            to_value: after[field],
+            source,
+        }));
+}
+
+export async function recordTaskEvents(events: NewTaskEvent[]) {
+    if (events.length === 0) return;
+    // History must never block the change itself
+    const { error } = await supabaseAdmin.from('task_events').insert(events);
+    if (error) console.error("Task event record error:", error);
+}
+
+export async function listTaskEvents(userId: string, taskId: string): Promise<TaskEvent[]> {
+    const { data, error } = await supabaseAdmin
+        .from('task_events')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('task_id', taskId)
+        .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as TaskEvent[];
+}
+
+export async function listRecentEvents(limit = 200): Promise<TaskEvent[]> {
+    const { data, error } = await supabaseAdmin
+        .from('task_events')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) throw error;
+    return data as TaskEvent[];
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { defaultProvider, extractTasks, ExtractionProvider, geminiProvider, repairExtractedTask, ruleBasedProvider } from "@/utils/taskExtraction";
+import { DEFAULT_RANK_COLUMNS } from "@/utils/rankColumns";
+
+const stub = (extract: ExtractionProvider['extract']): ExtractionProvider => ({ name: 'stub', extract });
+
+describe("repairExtractedTask", () => {
+    it("drops items without a title and fills in the rest", () => {
+        expect(repairExtractedTask({ title: '  ' })).toBeNull();
+        expect(repairExtractedTask('資料作成')).toBeNull();
+        expect(repairExtractedTask({ title: ' 資料作成 ', subtasks: ['構成', '', 3] })).toEqual({
+            title: '資料作成', category: '', priority: 'C', due_at: null, subtasks: ['構成'], recurrence: null,
+        });
+    });
+
+    it("reads ranks by name or alias and never assigns one the AI may not use", () => {
+        expect(repairExtractedTask({ title: 'API修正', priority: '開発' })?.priority).toBe('DEV');
+        expect(repairExtractedTask({ title: '何か', priority: 'X' })?.priority).toBe('C');
+        const noIdeas = DEFAULT_RANK_COLUMNS.map(c => c.key === 'IDEA' ? { ...c, ai_assignable: false } : c);
+        expect(repairExtractedTask({ title: '思いつき', priority: 'IDEA' }, noIdeas)?.priority).toBe('C');
+    });
+
+    it("puts date-only deadlines at the end of the day in JST", () => {
+        expect(repairExtractedTask({ title: '提出', due_at: '2026-03-15' })?.due_at).toBe('2026-03-15T14:59:00.000Z');
+        expect(repairExtractedTask({ title: '提出', due_at: '2026-03-15T00:00:00+09:00' })?.due_at).toBe('2026-03-15T14:59:00.000Z');
+        expect(repairExtractedTask({ title: '提出', due_at: '2026-03-15T17:00:00+09:00' })?.due_at).toBe('2026-03-15T08:00:00.000Z');
+        expect(repairExtractedTask({ title: '提出', due_at: '来週' })?.due_at).toBeNull();
+    });
+
+    it("accepts a recurrence phrase or a rule", () => {
+        expect(repairExtractedTask({ title: '週報', recurrence: '毎週月曜' })?.recurrence).toEqual({ type: 'weekly', days: [1] });
+        expect(repairExtractedTask({ title: '月報', recurrence: { type: 'monthly', day: 15 } })?.recurrence).toEqual({ type: 'monthly', day: 15 });
+        expect(repairExtractedTask({ title: '週報', recurrence: 'ときどき' })?.recurrence).toBeNull();
+    });
+});
+
+describe("defaultProvider", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("uses the model only with an API key and without the rules override", () => {
+        vi.stubEnv("GOOGLE_API_KEY", "key");
+        expect(defaultProvider()).toBe(geminiProvider);
+        vi.stubEnv("TASK_EXTRACTION_PROVIDER", "rules");
+        expect(defaultProvider()).toBe(ruleBasedProvider);
+        vi.stubEnv("TASK_EXTRACTION_PROVIDER", "");
+        vi.stubEnv("GOOGLE_API_KEY", "");
+        expect(defaultProvider()).toBe(ruleBasedProvider);
+    });
+});
+
+describe("extractTasks", () => {
+    const text = "サーバー障害の対応\n明日までに見積もり";
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it("repairs what the provider returns", async () => {
+        const provider = stub(async () => [{ title: '資料作成', category: '営業', priority: 'B' }, { title: '' }, null]);
+        expect(await extractTasks(text, undefined, provider)).toEqual([
+            { title: '資料作成', category: '営業', priority: 'B', due_at: null, subtasks: [], recurrence: null },
+        ]);
+    });
+
+    it("falls back to the rules when the provider fails", async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const tasks = await extractTasks(text, undefined, stub(async () => { throw new Error("quota"); }));
+        expect(tasks.map(t => [t.title, t.priority])).toEqual([['サーバー障害の対応', 'S'], ['明日までに見積もり', 'A']]);
+    });
+
+    it("falls back to the rules when the provider does not answer in time", async () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const pending = extractTasks(text, undefined, stub(() => new Promise(() => {})));
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect((await pending).map(t => t.title)).toEqual(['サーバー障害の対応', '明日までに見積もり']);
+    });
+});
@@ -0,0 +1,192 @@
+import { GenerationConfig, SchemaType } from "@google/generative-ai";
+import { model } from "@/utils/gemini";
+import { endOfDay, isDateOnly, isDueAt, todayLabel } from "@/utils/dueDate";
+import { TaskInput } from "@/utils/tasks";
+import { classifyTasks } from "@/utils/taskClassifier";
+import { listRecentCorrections, PriorityCorrection } from "@/utils/priorityCorrections";
+import { toSubtaskTitles } from "@/utils/subtasks";
+import { isRecurrence, parseRecurrence } from "@/utils/recurrence";
+import { listCategories } from "@/utils/categories";
+import { getUserSettings } from "@/utils/userSettings";
+import { aiRanks, DEFAULT_RANK_COLUMNS, findRank, rankColumnsOf } from "@/utils/rankColumns";
+import { Priority, RankColumn } from "@/types";
+
+// Turning free text into tasks, shared by the LINE webhook and /api/tasks/analyze.
+// A provider returns raw items; extractTasks validates and repairs them, so callers
+// always get well-formed tasks no matter which provider (or model version) produced them.
+
+export type ExtractedTask = Pick<TaskInput, 'title' | 'category' | 'priority' | 'due_at' | 'recurrence'> & {
+    // Checklist items (see utils/subtasks.ts)
+    subtasks: string[];
+};
+
+export interface ExtractionContext {
+    // The user's own rank corrections, newest first
+    examples: PriorityCorrection[];
+    // Names of the user's categories, so the model reuses them instead of inventing variants
+    categories: string[];
+    // The user's rank columns; only those marked ai_assignable are offered to the model
+    ranks: RankColumn[];
+}
+
+export interface ExtractionProvider {
+    name: string;
+    /** Returns the raw, unvalidated items found in `text`. */
+    extract(text: string, context: ExtractionContext): Promise<unknown[]>;
+}
+
+const MAX_TITLE_LENGTH = 200;
+// The LINE reply token and the dashboard spinner should not wait longer than this for a model
+const PROVIDER_TIMEOUT_MS = 10_000;
+
+// What each rank means to the model; the user's own column names are shown next to these
+const rankGuides: Record<Priority, string> = {
+    'S': '重要かつ緊急（締め切り直近、重要会議、トラブル対応など）',
+    'A': '緊急（今日明日中にやるべきこと）',
+    'B': '重要（時間はかかるが重要な計画、準備など）',
+    'C': 'その他（日常的な雑務、急がないもの）',
+    'DEV': '開発・コーディング・技術的な作業',
+    'IDEA': 'アイデア・メモ・思いつき',
+};
+
+function buildPrompt(text: string, { examples, categories, ranks }: ExtractionContext) {
+    const { fallback } = aiRanks(ranks);
+    const learned = examples.length === 0 ? '' : `
+7. このユーザーは過去に次のように優先度を修正しています。似たタスクはこの傾向に合わせて判定してください：
+${examples.map(e => `   - 「${e.title}」: ${e.ai_priority} → ${e.corrected_priority}`).join("\n")}`;
+
+    return `以下のテキストからタスクを抽出してください。
+テキスト:
+"${text}"
+
+解析ルール：
+1. 原則として「1行1タスク」として扱ってください。
+2. 「〇〇PJ 〇〇の状況」のように、プロジェクト名やコンテキストが含まれる場合は、それを含めてタスク名（title）にするか、適切にカテゴリ（category）に分類してください。${categories.length > 0 ? `
+   - 既存のカテゴリ: ${categories.join(' / ')}。当てはまるものがあれば、この表記のまま category に入れてください。` : ''}
+3. 各タスクの優先度（priority）を以下の基準で判定してください。以下にないランクは使わず、どれにも当てはまらない場合は ${fallback} にしてください：
+${ranks.filter(r => r.ai_assignable).map(r => `   - ${r.key}（${r.name}）: ${rankGuides[r.key]}`).join("\n")}
+4. 締め切り・期日が読み取れる場合は due_at に日本時間のISO 8601形式（例: 2026-03-15T17:00:00+09:00）で入れてください。
+   - 今日は ${todayLabel()} です。「明日」「来週金曜」「3/15 17時」などはこの日付を基準に解釈してください。
+   - 時刻の指定がない場合はその日の 23:59 とし、期日がない場合は null にしてください。
+5. ある行の下にインデントされた行や箇条書き（「-」「・」など）が続く場合、それらは独立したタスクではなく、その行のサブタスク（subtasks）としてタイトルの配列に入れてください。サブタスクがなければ空配列にしてください。
+6. 「毎週月曜」「毎月末」のように繰り返す作業は、繰り返しの表現を title から除き、recurrence に次のいずれかの形式で入れてください。繰り返しでなければ null にしてください。
+   - 毎日 / 平日毎日 / 毎週月曜（複数なら 毎週月・木）/ 毎月15日 / 毎月末 / 毎月最終営業日${learned}`;
+}
+
+const generationConfig = (ranks: RankColumn[]): GenerationConfig => ({
+    responseMimeType: "application/json",
+    responseSchema: {
+        type: SchemaType.ARRAY,
+        items: {
+            type: SchemaType.OBJECT,
+            properties: {
+                title: { type: SchemaType.STRING },
+                category: { type: SchemaType.STRING },
+                priority: { type: SchemaType.STRING, format: "enum", enum: aiRanks(ranks).allowed },
+                due_at: { type: SchemaType.STRING, nullable: true, description: "ISO 8601 (JST)" },
+                subtasks: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                recurrence: { type: SchemaType.STRING, nullable: true, description: "毎日 / 平日毎日 / 毎週月曜 / 毎月15日 / 毎月末 / 毎月最終営業日" },
+            },
+            required: ['title', 'category', 'priority'],
+        },
+    },
+});
+
+export const geminiProvider: ExtractionProvider = {
+    name: 'gemini',
+    async extract(text, context) {
+        const result = await model.generateContent({
+            contents: [{ role: 'user', parts: [{ text: buildPrompt(text, context) }] }],
+            generationConfig: generationConfig(context.ranks),
+        });
+        const parsed: unknown = JSON.parse(result.response.text());
+        return Array.isArray(parsed) ? parsed : [];
+    },
+};
+
+// Deterministic and offline: keyword classification (see utils/taskClassifier.ts)
+export const ruleBasedProvider: ExtractionProvider = {
+    name: 'rules',
+    async extract(text) {
+        return classifyTasks(text).map(task => ({ ...task, due_at: null }));
+    },
+};
+
+// TASK_EXTRACTION_PROVIDER=rules forces the local provider, e.g. for offline runs
+export function defaultProvider(): ExtractionProvider {
+    if (process.env.TASK_EXTRACTION_PROVIDER === 'rules' || !process.env.GOOGLE_API_KEY) return ruleBasedProvider;
+    return geminiProvider;
+}
+
+// A bare date, or midnight as the prompt used to ask for, is a date-only deadline
+function toDueAt(value: unknown) {
+    if (!isDueAt(value)) return null;
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) || isDateOnly(value) ? endOfDay(value) : new Date(value).toISOString();
+}
+
+// Models return the phrase ("毎週月曜"), the offline provider returns the rule itself
+function toRecurrence(value: unknown) {
+    if (typeof value === 'string') return parseRecurrence(value)?.rule ?? null;
+    return isRecurrence(value) ? value : null;
+}
+
+/**
+ * Coerces one raw item into a task, or returns null if it has no usable title.
+ * A rank may be given by key, name or alias; ranks the AI may not assign become the fallback rank.
+ */
+export function repairExtractedTask(raw: unknown, ranks: RankColumn[] = DEFAULT_RANK_COLUMNS): ExtractedTask | null {
+    if (!raw || typeof raw !== 'object') return null;
+    const item = raw as Record<string, unknown>;
+
+    const title = typeof item.title === 'string' ? item.title.trim().slice(0, MAX_TITLE_LENGTH) : '';
+    if (!title) return null;
+
+    const { allowed, fallback } = aiRanks(ranks);
+    const priority = typeof item.priority === 'string' ? findRank(item.priority, ranks) : null;
+
+    return {
+        title,
+        category: typeof item.category === 'string' ? item.category.trim() : '',
+        priority: priority && allowed.includes(priority) ? priority : fallback,
+        due_at: toDueAt(item.due_at),
+        subtasks: toSubtaskTitles(item.subtasks),
+        recurrence: toRecurrence(item.recurrence),
+    };
+}
+
+export function withTimeout<T>(promise: Promise<T>, ms = PROVIDER_TIMEOUT_MS): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Provider timed out after ${ms}ms`)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function loadContext(userId?: string): Promise<ExtractionContext> {
+    const empty: ExtractionContext = { examples: [], categories: [], ranks: DEFAULT_RANK_COLUMNS };
+    if (!userId) return empty;
+    try {
+        const [examples, categories, settings] = await Promise.all([listRecentCorrections(userId), listCategories(userId), getUserSettings(userId)]);
+        return { examples, categories: categories.map(c => c.name), ranks: rankColumnsOf(settings) };
+    } catch (error) {
+        console.error("Failed to load extraction context:", error);
+        return empty;
+    }
+}
+
+/**
+ * Extracts tasks from `text`, using `userId`'s past rank corrections as examples.
+ * If the provider fails or times out, falls back to the rule-based provider.
+ */
+export async function extractTasks(text: string, userId?: string, provider = defaultProvider()): Promise<ExtractedTask[]> {
+    const context = await loadContext(userId);
+    let items: unknown[];
+    try {
+        items = await withTimeout(provider.extract(text, context));
+    } catch (error) {
+        if (provider === ruleBasedProvider) throw error;
+        console.error(`Extraction with ${provider.name} failed, using rules:`, error);
+        items = await ruleBasedProvider.extract(text, context);
+    }
+    return items.map(item => repairExtractedTask(item, context.ranks)).filter((task): task is ExtractedTask => task !== null);
+}
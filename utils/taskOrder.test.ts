@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { compareTasks, isSortKey, keyBetween, keysAfter } from "@/utils/taskOrder";
+import { task } from "@/test/fixtures";
+
+describe("keyBetween", () => {
+    it("returns a valid key strictly between its neighbours", () => {
+        const pairs: [string | null, string | null][] = [[null, null], [null, '1'], ['1', '2'], ['z', null], ['a', 'a1'], ['0z', '1']];
+        for (const [before, after] of pairs) {
+            const key = keyBetween(before, after);
+            expect(isSortKey(key)).toBe(true);
+            if (before !== null) expect(key > before).toBe(true);
+            if (after !== null) expect(key < after).toBe(true);
+        }
+    });
+
+    it("rejects an empty range", () => {
+        expect(() => keyBetween('b', 'a')).toThrow();
+    });
+
+    it("keeps splitting the same gap", () => {
+        let after = 'b';
+        for (let i = 0; i < 50; i++) {
+            const key = keyBetween('a', after);
+            expect(key > 'a' && key < after).toBe(true);
+            after = key;
+        }
+    });
+});
+
+describe("keysAfter", () => {
+    it("returns ascending keys", () => {
+        const keys = keysAfter('5', 3);
+        expect(keys).toEqual([...keys].sort());
+        expect(keys[0] > '5').toBe(true);
+    });
+});
+
+describe("compareTasks", () => {
+    it("orders by rank, then by key, with unkeyed tasks first", () => {
+        const tasks = [
+            task({ id: 'b2', priority: 'B', sort_key: '2' }),
+            task({ id: 'a', priority: 'A', sort_key: 'z' }),
+            task({ id: 'b1', priority: 'B', sort_key: '1' }),
+            task({ id: 'b0', priority: 'B' }),
+        ];
+        expect(tasks.sort((x, y) => compareTasks(x, y)).map(t => t.id)).toEqual(['a', 'b0', 'b1', 'b2']);
+    });
+});
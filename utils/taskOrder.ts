@@ -0,0 +1,69 @@
+import { Task, Priority } from "@/types";
+
+// Task ordering shared by the dashboard columns and the LINE list.
+// Within a priority, tasks are ordered by `sort_key`, a fractional index string:
+// a key can always be generated between two neighbours, so a move is a single-row write.
+// Only 0-9a-z are used so that keys compare the same in JS and in any DB collation.
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+export const priorityOrder: Record<Priority, number> = {
+    'S': 0,
+    'A': 1,
+    'B': 2,
+    'C': 3,
+    'DEV': 4,
+    'IDEA': 5,
+};
+
+export const isSortKey = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value);
+
+// Midpoint of two keys read as base-36 fractions. `b === null` means "no upper bound".
+function midpoint(a: string, b: string | null): string {
+    if (b !== null) {
+        let n = 0;
+        while ((a[n] || '0') === b[n]) n++;
+        if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+    if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+    if (b !== null && b.length > 1) return b.slice(0, 1);
+    return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/** Returns a key strictly between `before` and `after` (either may be null for an open end). */
+export function keyBetween(before: string | null, after: string | null): string {
+    if (before !== null && after !== null && before >= after) {
+        throw new Error(`Invalid sort key range: ${before} >= ${after}`);
+    }
+    return midpoint(before ?? '', after);
+}
+
+/** Returns `count` ascending keys after `last`. */
+export function keysAfter(last: string | null, count: number): string[] {
+    const keys: string[] = [];
+    let prev = last;
+    for (let i = 0; i < count; i++) {
+        prev = keyBetween(prev, null);
+        keys.push(prev);
+    }
+    return keys;
+}
+
+/**
+ * Priority first (in the user's column order if given, see utils/rankColumns.ts), then manual order.
+ * Tasks created before manual ordering existed have no key and come first, oldest first, as they always did on LINE.
+ */
+export function compareTasks(a: Task, b: Task, order: Record<Priority, number> = priorityOrder): number {
+    const pA = order[a.priority] ?? 3;
+    const pB = order[b.priority] ?? 3;
+    if (pA !== pB) return pA - pB;
+
+    if (a.sort_key && b.sort_key && a.sort_key !== b.sort_key) return a.sort_key < b.sort_key ? -1 : 1;
+    if (!a.sort_key && b.sort_key) return -1;
+    if (a.sort_key && !b.sort_key) return 1;
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { deleteTrashedTasks, purgeTrash } from "@/utils/tasks";
+
+const db = vi.hoisted(() => ({
+    deleted: [] as { id: string }[],
+    channels: [] as { topic: string; config: unknown }[],
+    httpSend: vi.fn(),
+}));
+
+vi.mock("@/utils/taskEvents", () => ({ recordTaskEvents: vi.fn(), deletedEvent: vi.fn() }));
+vi.mock("@/utils/supabaseServer", () => {
+    // Every query builder call returns the builder; awaiting it gives the deleted rows
+    const builder: Record<string, unknown> = {};
+    for (const method of ['from', 'delete', 'eq', 'in', 'lte', 'select']) builder[method] = () => builder;
+    builder.then = (resolve: (result: unknown) => void) => resolve({ data: db.deleted, error: null });
+    builder.channel = (topic: string, options: { config: unknown }) => {
+        db.channels.push({ topic, config: options.config });
+        return { httpSend: db.httpSend };
+    };
+    builder.removeChannel = async () => 'ok';
+    return { supabaseAdmin: builder };
+});
+
+describe("deleting tasks for good", () => {
+    beforeEach(() => {
+        db.channels = [];
+        db.httpSend.mockReset().mockResolvedValue({ success: true });
+    });
+
+    it("announces the ids on the owner's private channel only", async () => {
+        db.deleted = [{ id: 'a' }, { id: 'b' }];
+        await deleteTrashedTasks('u1', ['a', 'b', 'c'], 'dashboard');
+
+        expect(db.channels).toEqual([{ topic: 'tasks:u1', config: { private: true } }]);
+        expect(db.httpSend).toHaveBeenCalledWith('tasks_deleted', { ids: ['a', 'b'] });
+    });
+
+    it("announces nothing when nothing was deleted", async () => {
+        db.deleted = [];
+        await purgeTrash('u1', 30);
+        expect(db.httpSend).not.toHaveBeenCalled();
+    });
+
+    it("still deletes when the announcement fails", async () => {
+        db.deleted = [{ id: 'a' }];
+        db.httpSend.mockRejectedValue(new Error("offline"));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(await purgeTrash('u1', 30)).toEqual([{ id: 'a' }]);
+    });
+});
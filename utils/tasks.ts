@@ -0,0 +1,465 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { Task, Priority, TaskEventSource, PRIORITIES } from "@/types";
+import { isSortKey, keysAfter } from "@/utils/taskOrder";
+import { isDueAt } from "@/utils/dueDate";
+import { createdEvent, deletedEvent, diffEvents, recordTaskEvents } from "@/utils/taskEvents";
+import { recordCorrection } from "@/utils/priorityCorrections";
+import { mergePatch } from "@/utils/duplicates";
+import { subtasksOf, toSubtaskTitles } from "@/utils/subtasks";
+import { appendNote, MAX_NOTES_LENGTH } from "@/utils/notes";
+import { firstDue, isRecurrence, nextDue } from "@/utils/recurrence";
+import { resolveCategories } from "@/utils/categories";
+import { canTransition, isStatus, withKnownStatus } from "@/utils/statuses";
+import { taskChannel, TASKS_DELETED_EVENT } from "@/utils/taskChannel";
+
+// Single write path for tasks. Used by the /api/tasks routes (dashboard) and the LINE webhook.
+// Every query is scoped by user_id, so callers only ever see and touch their own rows,
+// and every write is recorded in the activity log with the caller's `source`.
+// Tasks created by the AI remember its rank, so later rank changes can be learned from.
+// Completing a recurring task creates its next occurrence here, whichever client completed it.
+// Category names are matched to the user's categories on the way in (see utils/categories.ts).
+
+export type TaskInput = Pick<Task, 'title' | 'category' | 'notes' | 'priority' | 'status' | 'due_at' | 'recurrence'>;
+export type TaskPatch = Partial<TaskInput> & { sort_key?: string };
+
+export class TaskValidationError extends Error {}
+
+export const isPriority = (value: unknown): value is Priority => PRIORITIES.includes(value as Priority);
+
+/** Validates a partial update. Unknown keys are dropped; invalid values throw TaskValidationError. */
+export function validateTaskPatch(raw: unknown): TaskPatch {
+    if (!raw || typeof raw !== 'object') throw new TaskValidationError("Patch must be an object");
+    const input = raw as Record<string, unknown>;
+    const patch: TaskPatch = {};
+
+    if (input.title !== undefined) {
+        if (typeof input.title !== 'string' || !input.title.trim()) throw new TaskValidationError("title must be a non-empty string");
+        patch.title = input.title.trim();
+    }
+    if (input.category !== undefined) {
+        if (typeof input.category !== 'string') throw new TaskValidationError("category must be a string");
+        patch.category = input.category.trim();
+    }
+    if (input.notes !== undefined) {
+        if (input.notes !== null && typeof input.notes !== 'string') throw new TaskValidationError("notes must be a string or null");
+        if (typeof input.notes === 'string' && input.notes.length > MAX_NOTES_LENGTH) throw new TaskValidationError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+        // Clearing the text clears the note
+        patch.notes = input.notes?.trim() ? input.notes : null;
+    }
+    if (input.priority !== undefined) {
+        if (!isPriority(input.priority)) throw new TaskValidationError(`Unknown priority: ${input.priority}`);
+        patch.priority = input.priority;
+    }
+    if (input.status !== undefined) {
+        if (!isStatus(input.status)) throw new TaskValidationError(`Unknown status: ${input.status}`);
+        patch.status = input.status;
+    }
+    if (input.sort_key !== undefined) {
+        if (!isSortKey(input.sort_key)) throw new TaskValidationError(`Invalid sort_key: ${input.sort_key}`);
+        patch.sort_key = input.sort_key;
+    }
+    if (input.due_at !== undefined) {
+        if (input.due_at !== null && !isDueAt(input.due_at)) throw new TaskValidationError(`Invalid due_at: ${input.due_at}`);
+        patch.due_at = input.due_at === null ? null : new Date(input.due_at).toISOString();
+    }
+    if (input.recurrence !== undefined) {
+        if (input.recurrence !== null && !isRecurrence(input.recurrence)) throw new TaskValidationError("Invalid recurrence");
+        patch.recurrence = input.recurrence;
+    }
+    return patch;
+}
+
+/** Validates a new task, filling in the defaults used by the dashboard and LINE. */
+export function validateTaskInput(raw: unknown): TaskInput {
+    const patch = validateTaskPatch(raw);
+    if (!patch.title) throw new TaskValidationError("title is required");
+    return {
+        title: patch.title,
+        category: patch.category ?? '',
+        notes: patch.notes ?? null,
+        priority: patch.priority ?? 'C',
+        status: patch.status ?? '未処理',
+        due_at: patch.due_at ?? null,
+        recurrence: patch.recurrence ?? null,
+    };
+}
+
+// Bookkeeping columns derived from a patch: when the status last changed (for stale nudges),
+// when the task went to the trash (for purging) and whether the deadline reminder has to be sent again.
+function toRow(patch: TaskPatch) {
+    const now = new Date().toISOString();
+    return {
+        ...patch,
+        ...(patch.status !== undefined && { status_changed_at: now, deleted_at: patch.status === '削除済み' ? now : null }),
+        ...(patch.due_at !== undefined && { due_reminded_at: null }),
+    };
+}
+
+export async function listTasks(userId: string): Promise<Task[]> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return assignMissingRefs((data as Task[]).map(withKnownStatus));
+}
+
+// Tasks created before #handles existed get one on first read, oldest first
+async function assignMissingRefs(tasks: Task[]): Promise<Task[]> {
+    const missing = tasks.filter(t => t.ref === null).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (missing.length === 0) return tasks;
+
+    let ref = Math.max(0, ...tasks.map(t => t.ref ?? 0));
+    for (const task of missing) {
+        task.ref = ++ref;
+        const { error } = await supabaseAdmin.from('tasks').update({ ref: task.ref }).eq('id', task.id);
+        if (error) throw error;
+    }
+    return tasks;
+}
+
+async function lastRef(userId: string): Promise<number> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('ref')
+        .eq('user_id', userId)
+        .not('ref', 'is', null)
+        .order('ref', { ascending: false })
+        .limit(1);
+
+    if (error) throw error;
+    return data?.[0]?.ref ?? 0;
+}
+
+async function fetchOwnTasks(userId: string, ids: string[]): Promise<Task[]> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('*')
+        .in('id', ids)
+        .eq('user_id', userId);
+
+    if (error) throw error;
+    return (data as Task[]).map(withKnownStatus);
+}
+
+// Highest sort_key in a priority column, computed in JS so DB collation doesn't matter
+async function lastSortKey(userId: string, priority: Priority): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('sort_key')
+        .eq('user_id', userId)
+        .eq('priority', priority)
+        .not('sort_key', 'is', null);
+
+    if (error) throw error;
+    return (data as { sort_key: string }[]).reduce<string | null>((max, r) => (max === null || r.sort_key > max ? r.sort_key : max), null);
+}
+
+/**
+ * New tasks are appended to the end of their priority column and get the next #handle.
+ * An input's `subtasks` (list of titles) become its checklist. Returns parents and subtasks.
+ */
+export async function createTasks(userId: string, inputs: unknown[], source: TaskEventSource): Promise<Task[]> {
+    const validated = inputs.map(validateTaskInput);
+    if (validated.length === 0) return [];
+    const subtaskTitles = inputs.map(input => toSubtaskTitles((input as { subtasks?: unknown }).subtasks));
+
+    const keysByPriority = new Map<Priority, string[]>();
+    for (const priority of new Set(validated.map(t => t.priority))) {
+        const count = validated.filter(t => t.priority === priority).length;
+        keysByPriority.set(priority, keysAfter(await lastSortKey(userId, priority), count));
+    }
+    let ref = await lastRef(userId);
+    const categories = await resolveCategories(userId, validated.map(t => t.category));
+    const rows = validated.map(t => ({
+        ...t,
+        category: categories.get(t.category) ?? t.category,
+        // A recurring task always has a due date, so the next one can be computed from it
+        due_at: t.due_at ?? (t.recurrence ? firstDue(t.recurrence) : null),
+        sort_key: keysByPriority.get(t.priority)!.shift(),
+        ref: ++ref,
+        ai_priority: source === 'AI' ? t.priority : null,
+        user_id: userId,
+    }));
+
+    const { data, error } = await supabaseAdmin.from('tasks').insert(rows).select();
+    if (error) throw error;
+
+    await recordTaskEvents((data as Task[]).map(t => createdEvent(t, source)));
+
+    // Rows come back in insert order, which is the order of `inputs`
+    const parents = data as Task[];
+    const subtasks: Task[] = [];
+    for (const [i, parent] of parents.entries()) {
+        if (subtaskTitles[i].length > 0) subtasks.push(...await insertSubtasks(userId, parent, subtaskTitles[i], source));
+    }
+    return [...parents, ...subtasks];
+}
+
+async function insertSubtasks(userId: string, parent: Task, titles: string[], source: TaskEventSource): Promise<Task[]> {
+    const { data: siblings, error: siblingError } = await supabaseAdmin
+        .from('tasks')
+        .select('sort_key')
+        .eq('parent_id', parent.id)
+        .not('sort_key', 'is', null);
+    if (siblingError) throw siblingError;
+
+    const last = (siblings as { sort_key: string }[]).reduce<string | null>((max, r) => (max === null || r.sort_key > max ? r.sort_key : max), null);
+    const keys = keysAfter(last, titles.length);
+    let ref = await lastRef(userId);
+    const rows = titles.map((title, i) => ({
+        title,
+        category: parent.category,
+        priority: parent.priority,
+        status: '未処理',
+        sort_key: keys[i],
+        ref: ++ref,
+        parent_id: parent.id,
+        user_id: userId,
+    }));
+
+    const { data, error } = await supabaseAdmin.from('tasks').insert(rows).select();
+    if (error) throw error;
+    await recordTaskEvents((data as Task[]).map(t => createdEvent(t, source)));
+    return data as Task[];
+}
+
+/** Appends checklist items to `parentId`. Returns null if the parent does not exist or is itself a subtask. */
+export async function createSubtasks(userId: string, parentId: string, rawTitles: unknown, source: TaskEventSource): Promise<Task[] | null> {
+    const titles = toSubtaskTitles(rawTitles);
+    if (titles.length === 0) throw new TaskValidationError("titles must be a non-empty list of strings");
+    const [parent] = await fetchOwnTasks(userId, [parentId]);
+    if (!parent || parent.parent_id) return null;
+    return insertSubtasks(userId, parent, titles, source);
+}
+
+async function resolvePatchCategory(userId: string, patch: TaskPatch) {
+    if (patch.category) patch.category = (await resolveCategories(userId, [patch.category])).get(patch.category) ?? patch.category;
+}
+
+// See STATUS_DEFINITIONS for which status changes are allowed
+function checkTransition(before: Task, patch: TaskPatch) {
+    if (patch.status !== undefined && !canTransition(before.status, patch.status)) {
+        throw new TaskValidationError(`Cannot change status from ${before.status} to ${patch.status}`);
+    }
+}
+
+export interface TaskUpdate {
+    task: Task;
+    // The next occurrence, when the update completed a recurring task
+    next: Task | null;
+}
+
+/**
+ * Returns the updated task, or null if it does not exist or belongs to someone else.
+ * A priority change without an explicit sort_key moves the task to the end of its new column.
+ * `revert` skips the status transition check, for undo putting a task back as it was.
+ */
+export async function updateTask(userId: string, id: string, rawPatch: unknown, source: TaskEventSource, options: { revert?: boolean } = {}): Promise<Task | null> {
+    return (await updateTaskAndSpawn(userId, id, rawPatch, source, options))?.task ?? null;
+}
+
+/** updateTask, also returning the next occurrence it created, so that undo can remove it again. */
+export async function updateTaskAndSpawn(userId: string, id: string, rawPatch: unknown, source: TaskEventSource, { revert = false } = {}): Promise<TaskUpdate | null> {
+    const patch = validateTaskPatch(rawPatch);
+    const [before] = await fetchOwnTasks(userId, [id]);
+    if (!before) return null;
+    if (!revert) checkTransition(before, patch);
+
+    if (patch.priority && patch.sort_key === undefined) {
+        [patch.sort_key] = keysAfter(await lastSortKey(userId, patch.priority), 1);
+    }
+    await resolvePatchCategory(userId, patch);
+    const spawns = completesOccurrence(before, patch);
+
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .update({ ...toRow(patch), ...(spawns && { recurrence: null }) })
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select()
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const task = withKnownStatus(data as Task);
+    await recordTaskEvents(diffEvents(before, task, source));
+    await recordCorrection(before, task, source);
+    const [next] = spawns ? await createNextOccurrence(userId, before, source) : [];
+    return { task, next: next ?? null };
+}
+
+/** Adds `text` as a new line at the end of the task's notes. Returns null like updateTask. */
+export async function appendTaskNote(userId: string, id: string, text: string, source: TaskEventSource): Promise<Task | null> {
+    if (!text.trim()) throw new TaskValidationError("note text must not be empty");
+    const [task] = await fetchOwnTasks(userId, [id]);
+    if (!task) return null;
+    return updateTask(userId, id, { notes: appendNote(task.notes, text) }, source);
+}
+
+// Only the first completion counts; the completed occurrence gives up its rule (see createNextOccurrence)
+const completesOccurrence = (before: Task, patch: TaskPatch) =>
+    !!before.recurrence && !before.parent_id && patch.status === '完了' && before.status !== '完了';
+
+/** Creates the occurrence after `task`: same content and checklist, next due date, all unchecked. */
+async function createNextOccurrence(userId: string, task: Task, source: TaskEventSource): Promise<Task[]> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .select('*')
+        .eq('parent_id', task.id);
+    if (error) throw error;
+
+    const checklist = subtasksOf(data as Task[], task.id).map(s => s.title);
+    return createTasks(userId, [{
+        title: task.title,
+        category: task.category,
+        notes: task.notes,
+        priority: task.priority,
+        due_at: nextDue(task.recurrence!, task.due_at),
+        recurrence: task.recurrence,
+        subtasks: checklist,
+    }], source);
+}
+
+/** Applies the same patch to several tasks. Returns only the rows that were actually updated. */
+export async function updateTasks(userId: string, ids: string[], rawPatch: unknown, source: TaskEventSource): Promise<Task[]> {
+    const patch = validateTaskPatch(rawPatch);
+    if (ids.length === 0) return [];
+
+    // Each moved task needs its own position in the new column
+    if (patch.priority) {
+        const updated: Task[] = [];
+        for (const id of ids) {
+            const task = await updateTask(userId, id, patch, source);
+            if (task) updated.push(task);
+        }
+        return updated;
+    }
+
+    await resolvePatchCategory(userId, patch);
+    const befores = await fetchOwnTasks(userId, ids);
+    befores.forEach(before => checkTransition(before, patch));
+    // Recurring tasks hand their rule over to the next occurrence one by one
+    if (befores.some(before => completesOccurrence(before, patch))) {
+        const updated: Task[] = [];
+        for (const before of befores) {
+            const task = await updateTask(userId, before.id, patch, source);
+            if (task) updated.push(task);
+        }
+        return updated;
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .update(toRow(patch))
+        .in('id', ids)
+        .eq('user_id', userId)
+        .select();
+
+    if (error) throw error;
+    const updated = (data as Task[]).map(withKnownStatus);
+    await recordTaskEvents(updated.flatMap(after => {
+        const before = befores.find(b => b.id === after.id);
+        return before ? diffEvents(before, after, source) : [];
+    }));
+    return updated;
+}
+
+/** Permanently deletes a task in any status, for undoing its creation. Returns false if nothing was deleted. */
+export async function deleteTask(userId: string, id: string, source: TaskEventSource): Promise<boolean> {
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select();
+
+    if (error) throw error;
+    await recordTaskEvents((data as Task[]).map(t => deletedEvent(t, source)));
+    await announceDeleted(userId, data as Task[]);
+    return !!data && data.length > 0;
+}
+
+/**
+ * Permanently deletes one task from the trash. Returns false if it does not exist or belongs to someone else;
+ * a task that is not in the trash is refused, so nothing is lost without passing through it.
+ */
+export async function deleteTrashedTask(userId: string, id: string, source: TaskEventSource): Promise<boolean> {
+    const [task] = await fetchOwnTasks(userId, [id]);
+    if (!task) return false;
+    if (task.status !== '削除済み') throw new TaskValidationError(`Only trashed tasks can be deleted, not ${task.status}`);
+    return (await deleteTrashedTasks(userId, [id], source)).length > 0;
+}
+
+/** Permanently deletes those of `ids` that are still in the trash. Returns the deleted tasks. */
+export async function deleteTrashedTasks(userId: string, ids: string[], source: TaskEventSource): Promise<Task[]> {
+    if (ids.length === 0) return [];
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .delete()
+        .in('id', ids)
+        .eq('user_id', userId)
+        .eq('status', '削除済み')
+        .select();
+
+    if (error) throw error;
+    await recordTaskEvents((data as Task[]).map(t => deletedEvent(t, source)));
+    await announceDeleted(userId, data as Task[]);
+    return data as Task[];
+}
+
+/** Permanently deletes tasks that have been in the trash for `retentionDays` or longer. */
+export async function purgeTrash(userId: string, retentionDays: number, now = new Date()): Promise<Task[]> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabaseAdmin
+        .from('tasks')
+        .delete()
+        .eq('user_id', userId)
+        .eq('status', '削除済み')
+        .lte('deleted_at', cutoff)
+        .select();
+
+    if (error) throw error;
+    await recordTaskEvents((data as Task[]).map(t => deletedEvent(t, 'cron')));
+    await announceDeleted(userId, data as Task[]);
+    return data as Task[];
+}
+
+// Tells the user's open dashboards which tasks are gone (see utils/realtimeTasks.ts). A failed send only
+// leaves them on the board until its next refetch, so it does not fail the delete.
+async function announceDeleted(userId: string, tasks: Task[]) {
+    if (tasks.length === 0) return;
+    const channel = supabaseAdmin.channel(taskChannel(userId), { config: { private: true } });
+    try {
+        await channel.httpSend(TASKS_DELETED_EVENT, { ids: tasks.map(t => t.id) });
+    } catch (error) {
+        console.error("Failed to announce deleted tasks:", error);
+    } finally {
+        await supabaseAdmin.removeChannel(channel);
+    }
+}
+
+/**
+ * Merges task `otherId` into `targetId` (see mergePatch) and moves the other task to the trash.
+ * Returns null if either task does not exist or belongs to someone else.
+ */
+export async function mergeTasks(userId: string, targetId: string, otherId: string, source: TaskEventSource): Promise<{ target: Task; merged: Task } | null> {
+    if (targetId === otherId) throw new TaskValidationError("Cannot merge a task into itself");
+    const found = await fetchOwnTasks(userId, [targetId, otherId]);
+    const target = found.find(t => t.id === targetId);
+    const other = found.find(t => t.id === otherId);
+    if (!target || !other) return null;
+
+    const patch = mergePatch(target, other);
+    const updated = Object.keys(patch).length > 0 ? await updateTask(userId, targetId, patch, source) : target;
+    const merged = await updateTask(userId, otherId, { status: '削除済み' }, source);
+    if (!updated || !merged) return null;
+    return { target: updated, merged };
+}
+
+/** Moves a task out of the trash, a drawer or the done list back to 未処理. */
+export async function restoreTask(userId: string, id: string, source: TaskEventSource): Promise<Task | null> {
+    return updateTask(userId, id, { status: '未処理' }, source);
+}
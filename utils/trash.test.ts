@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import { daysUntilPurge, trashedTasks } from "@/utils/trash";
+import { task } from "@/test/fixtures";
+
+const trashed = (fields: Partial<Task>) => task({ status: '削除済み', ...fields });
+
+describe("daysUntilPurge", () => {
+    const now = new Date("2026-03-10T00:00:00Z");
+
+    it("counts whole days left from deletion", () => {
+        expect(daysUntilPurge(trashed({ deleted_at: "2026-03-09T12:00:00Z" }), 30, now)).toBe(30);
+        expect(daysUntilPurge(trashed({ deleted_at: "2026-03-01T00:00:00Z" }), 7, now)).toBe(0);
+    });
+
+    it("falls back to the last status change for tasks trashed before deleted_at existed", () => {
+        expect(daysUntilPurge(trashed({ status_changed_at: "2026-03-05T00:00:00Z" }), 7, now)).toBe(2);
+    });
+});
+
+describe("trashedTasks", () => {
+    it("lists trashed top-level tasks, newest first", () => {
+        const tasks = [
+            trashed({ id: 'old', deleted_at: "2026-03-01T00:00:00Z" }),
+            trashed({ id: 'new', deleted_at: "2026-03-05T00:00:00Z" }),
+            trashed({ id: 'sub', parent_id: 'old', deleted_at: "2026-03-06T00:00:00Z" }),
+            task({ id: 'open' }),
+        ];
+        expect(trashedTasks(tasks).map(t => t.id)).toEqual(['new', 'old']);
+    });
+});
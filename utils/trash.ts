@@ -0,0 +1,21 @@
+import { Task } from "@/types";
+
+// Trash retention shared by the dashboard drawer, the LINE ゴミ箱 list and the purge job
+// (app/api/cron/purge-trash). No server dependencies, so the dashboard uses it too.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Tasks trashed before deleted_at existed count from their last status change
+const trashedAt = (task: Task) => new Date(task.deleted_at ?? task.status_changed_at ?? task.created_at).getTime();
+
+/** Days left before the purge job deletes a trashed task; 0 means at the next run. */
+export function daysUntilPurge(task: Task, retentionDays: number, now = new Date()) {
+    return Math.max(0, Math.ceil((trashedAt(task) + retentionDays * DAY - now.getTime()) / DAY));
+}
+
+/** Trashed top-level tasks, most recently deleted first; LINE's 復元 n counts in this order. */
+export function trashedTasks(tasks: Task[]): Task[] {
+    return tasks
+        .filter(t => !t.parent_id && t.status === '削除済み')
+        .sort((a, b) => trashedAt(b) - trashedAt(a));
+}
@@ -0,0 +1,43 @@
+import { supabaseAdmin } from "@/utils/supabaseServer";
+import { UserSettings } from "@/types";
+
+export const DEFAULT_USER_SETTINGS: Omit<UserSettings, 'user_id'> = {
+    dev_rank_name: "自由設定（名前変更可能）",
+    idea_rank_name: "💡 アイデア（名前変更可能）",
+    rank_columns: null,
+    reminders_enabled: false,
+    digest_hour: 8,
+    quiet_start: 22,
+    quiet_end: 7,
+    stale_days: 7,
+    trash_retention_days: 30,
+    last_seen_list: null,
+};
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+    const { data, error } = await supabaseAdmin
+        .from('user_settings')
+        .select('*')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (error) throw error;
+    return { ...DEFAULT_USER_SETTINGS, ...data, user_id: userId };
+}
+
+export async function saveUserSettings(userId: string, patch: Partial<Omit<UserSettings, 'user_id'>>) {
+    const { data, error } = await supabaseAdmin
+        .from('user_settings')
+        .upsert({ ...patch, user_id: userId, updated_at: new Date().toISOString() })
+        .select();
+
+    if (error) throw error;
+    return data;
+}
+
+/** Whether `hour` (0-23, JST) falls in the user's quiet hours. The range may wrap past midnight. */
+export function isQuietHour(settings: Pick<UserSettings, 'quiet_start' | 'quiet_end'>, hour: number) {
+    const { quiet_start: start, quiet_end: end } = settings;
+    if (start === null || end === null || start === end) return false;
+    return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}